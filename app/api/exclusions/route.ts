@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROJECT_ID, getProject, secretsMatch } from '@/lib/projects';
+import { createServiceClient, ExclusionService } from '@/lib/supabase';
+
+interface SetExclusionBody {
+  projectId?: string;
+  recordKey?: string;
+  excluded?: boolean;
+}
+
+// Lists the record keys excluded from a project's target counts
+export async function GET(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const recordKeys = await ExclusionService.listExclusions(createServiceClient(), project.id);
+    return NextResponse.json({ recordKeys });
+  } catch (error: any) {
+    console.error('Exclusions error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load exclusions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Excludes or restores one record and returns the project's updated list.
+// Requires the project's review secret in an "X-Review-Secret" header.
+export async function POST(request: NextRequest) {
+  let body: SetExclusionBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const project = getProject(body.projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${body.projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (!project.reviewSecret) {
+    return NextResponse.json(
+      { error: 'Excluding submissions is not enabled for this project' },
+      { status: 403 }
+    );
+  }
+
+  const providedSecret = request.headers.get('x-review-secret') ?? '';
+  if (!secretsMatch(providedSecret, project.reviewSecret)) {
+    return NextResponse.json({ error: 'Invalid review secret' }, { status: 401 });
+  }
+
+  if (typeof body.recordKey !== 'string' || !body.recordKey || typeof body.excluded !== 'boolean') {
+    return NextResponse.json({ error: 'Expected a recordKey and an excluded flag' }, { status: 400 });
+  }
+
+  try {
+    const client = createServiceClient();
+    await ExclusionService.setExclusion(client, project.id, body.recordKey, body.excluded);
+    const recordKeys = await ExclusionService.listExclusions(client, project.id);
+    return NextResponse.json({ recordKeys });
+  } catch (error: any) {
+    console.error('Exclusion save error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save exclusion' },
+      { status: 500 }
+    );
+  }
+}
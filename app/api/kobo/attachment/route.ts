@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataSourceApiError } from '@/lib/dataSource';
+import { DEFAULT_PROJECT_ID, getProject, getProjectSource } from '@/lib/projects';
+
+// Streams one submission attachment from the project's server, adding its credentials, so
+// photos and audio can be shown in the dashboard without exposing the token
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const projectId = params.get('projectId');
+  const id = params.get('id');
+  const uuid = params.get('uuid');
+  const attachment = params.get('attachment');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  const formId = params.get('formId') || project.formId;
+  if (!project.forms.some((form) => form.formId === formId)) {
+    return NextResponse.json({ error: `Form ${formId} is not part of project ${project.id}` }, { status: 400 });
+  }
+
+  if (!attachment) {
+    return NextResponse.json({ error: 'Missing attachment' }, { status: 400 });
+  }
+
+  const submissionId = id !== null && /^\d+$/.test(id) ? Number(id) : null;
+  if (project.source === 'odk-central' ? !uuid : submissionId === null) {
+    return NextResponse.json(
+      { error: project.source === 'odk-central' ? 'Missing submission uuid' : 'Missing submission id' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const upstream = await getProjectSource(project).fetchAttachment(
+      formId,
+      { id: submissionId, uuid },
+      attachment,
+      request.headers.get('range')
+    );
+
+    const headers = new Headers({
+      'Content-Type': upstream.headers.get('content-type') ?? 'application/octet-stream',
+      // Attachments never change once submitted
+      'Cache-Control': 'private, max-age=86400',
+    });
+    // Pass range responses through untouched so <audio>/<video> can seek
+    ['content-length', 'content-range', 'accept-ranges'].forEach((name) => {
+      const value = upstream.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+
+    return new NextResponse(upstream.body, { status: upstream.status === 206 ? 206 : 200, headers });
+  } catch (error: any) {
+    if (error instanceof DataSourceApiError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Attachment proxy error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROJECT_ID, getProject } from '@/lib/projects';
+import { MAX_PUSHED_BATCH } from '@/lib/pushedSubmissions';
+import { createServiceClient, SubmissionService } from '@/lib/supabase';
+
+// Payloads of submissions pushed by the webhook, as ?projectId=<id>&recordKey=<key>&recordKey=<key>.
+// Reads with the service role, so kobo_submissions needs no read policy for the anon key.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const projectId = searchParams.get('projectId');
+  const recordKeys = searchParams.getAll('recordKey').filter(Boolean);
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (recordKeys.length === 0 || recordKeys.length > MAX_PUSHED_BATCH) {
+    return NextResponse.json(
+      { error: `Pass between 1 and ${MAX_PUSHED_BATCH} recordKey parameters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const submissions = await SubmissionService.getSubmissions(createServiceClient(), project.id, recordKeys);
+    return NextResponse.json({ submissions });
+  } catch (error: any) {
+    console.error('Pushed submissions error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load pushed submissions' },
+      { status: 500 }
+    );
+  }
+}
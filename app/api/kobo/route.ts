@@ -1,69 +1,105 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { DataSourceApiError } from '@/lib/dataSource';
+import { DEFAULT_PROJECT_ID, getProject, getProjectSource } from '@/lib/projects';
+import { FORM_ROLE_KEY, FORM_UID_KEY, overlapWatermark } from '@/lib/submissions';
+import type { KoBoSubmission, ProjectForm } from '@/types';
+
+// e.g. 2025-03-01T10:02:03, 2025-03-01T10:02:03.120Z, 2025-03-01T10:02:03+02:00
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})?$/;
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const serverUrl = searchParams.get('server');
-  const formId = searchParams.get('formId');
-  const token = searchParams.get('token');
+  const projectId = searchParams.get('projectId');
 
-  if (!serverUrl || !formId || !token) {
+  // Credentials are resolved server-side; refuse caller-supplied targets so this can't act as an open proxy
+  if (searchParams.has('server') || searchParams.has('token') || searchParams.has('formId')) {
     return NextResponse.json(
-      { error: 'Missing required parameters: server, formId, token' },
+      { error: 'server, formId and token parameters are not accepted; pass projectId instead' },
       { status: 400 }
     );
   }
 
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  // Optional per-form _submission_time watermarks for incremental syncs, as since[<formId>]=<timestamp>
+  const watermarks: Record<string, string> = {};
+  for (const form of project.forms) {
+    const since = searchParams.get(`since[${form.formId}]`);
+    if (!since) continue;
+    // Watermarks end up in KoBo queries and OData $filter expressions, so only plain timestamps pass
+    if (!ISO_TIMESTAMP.test(since) || Number.isNaN(Date.parse(since))) {
+      return NextResponse.json(
+        { error: `since[${form.formId}] must be an ISO-8601 timestamp` },
+        { status: 400 }
+      );
+    }
+    watermarks[form.formId] = since;
+  }
+  const incremental = Object.keys(watermarks).length > 0;
+
   try {
-    const url = `${serverUrl.replace(/\/$/, '')}/api/v2/assets/${formId}/data.json?format=json`;
+    const results: KoBoSubmission[] = [];
+    // Identity and validation fields of every record in incrementally synced forms
+    const statuses: KoBoSubmission[] = [];
+    const forms: Array<ProjectForm & { count: number }> = [];
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Token ${token}`,
-        'Accept': 'application/json',
-      },
-    });
+    const source = getProjectSource(project);
 
-    if (!response.ok) {
-      const contentType = response.headers.get('content-type');
-      let details: unknown = null;
+    // Pull every form in the project and tag submissions with their source form and role
+    for (const form of project.forms) {
+      const since = watermarks[form.formId];
+      // Overlapping the watermark re-reads a few records; the client de-duplicates them by key
+      const page = await source.fetchSubmissions(form.formId, { since: since ? overlapWatermark(since) : null });
+      page.results.forEach((submission) => {
+        results.push({ ...submission, [FORM_UID_KEY]: form.formId, [FORM_ROLE_KEY]: form.role });
+      });
+      forms.push({ ...form, count: page.count });
 
-      if (contentType?.includes('application/json')) {
-        try {
-          details = await response.json();
-        } catch (parseError) {
-          details = `Unable to parse JSON error: ${String(parseError)}`;
-        }
-      } else {
-        try {
-          details = await response.text();
-        } catch (textError) {
-          details = `Unable to read error response: ${String(textError)}`;
-        }
+      // Reviews don't move _submission_time, so already-synced records need their status re-read
+      if (since) {
+        const formStatuses = await source.fetchValidationStatuses(form.formId);
+        formStatuses.forEach((record) => statuses.push({ ...record, [FORM_UID_KEY]: form.formId }));
       }
+    }
 
+    return NextResponse.json(
+      {
+        projectId: project.id,
+        source: source.type,
+        forms,
+        count: results.length,
+        results,
+        statuses,
+        incremental,
+        since: watermarks,
+      },
+      {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      }
+    );
+  } catch (error: any) {
+    if (error instanceof DataSourceApiError) {
       return NextResponse.json(
         {
-          error: `KoBoToolbox API Error: ${response.status} ${response.statusText}`,
-          details,
-          requestUrl: url,
+          error: error.message,
+          details: error.details,
         },
-        { status: response.status }
+        { status: error.status }
       );
     }
 
-    const data = await response.json();
-
-    return NextResponse.json(data, {
-      status: 200,
-      headers: {
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-      },
-    });
-  } catch (error: any) {
     console.error('API Error:', error);
     return NextResponse.json(
-      { error: error.message || 'Failed to fetch data from KoBoToolbox' },
+      { error: error.message || 'Failed to fetch submission data' },
       { status: 500 }
     );
   }
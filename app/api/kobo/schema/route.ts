@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { koboRequest, KoBoApiError } from '@/lib/kobo';
+import { parseAssetContent } from '@/lib/formSchema';
+import { DEFAULT_PROJECT_ID, getProject } from '@/lib/projects';
+
+export async function GET(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (project.source !== 'kobo') {
+    return NextResponse.json(
+      { error: 'Form schema import is only available for KoBoToolbox projects' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const asset = await koboRequest<any>(
+      project,
+      `/api/v2/assets/${encodeURIComponent(project.formId)}/?format=json`
+    );
+
+    return NextResponse.json(
+      { schema: parseAssetContent(asset) },
+      {
+        status: 200,
+        headers: {
+          // Form definitions only change on redeploy; a short cache keeps Refresh cheap
+          'Cache-Control': 'private, max-age=300',
+        },
+      }
+    );
+  } catch (error: any) {
+    if (error instanceof KoBoApiError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Schema fetch error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch form definition from KoBoToolbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { koboRequest, KoBoApiError } from '@/lib/kobo';
+import { DEFAULT_PROJECT_ID, getProject } from '@/lib/projects';
+
+// Redirects to a read-only view of one submission on the project's server, so the dashboard
+// can link to records while only knowing the project id
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const projectId = params.get('projectId');
+  const id = params.get('id');
+  const uuid = params.get('uuid');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  const formId = params.get('formId') || project.formId;
+  if (!project.forms.some((form) => form.formId === formId)) {
+    return NextResponse.json({ error: `Form ${formId} is not part of project ${project.id}` }, { status: 400 });
+  }
+
+  if (project.source === 'odk-central') {
+    if (!uuid) {
+      return NextResponse.json({ error: 'Missing submission uuid' }, { status: 400 });
+    }
+    const instanceId = uuid.startsWith('uuid:') ? uuid : `uuid:${uuid}`;
+    const serverUrl = project.serverUrl.replace(/\/$/, '');
+    return NextResponse.redirect(
+      `${serverUrl}/#/projects/${encodeURIComponent(project.odkProjectId ?? '')}/forms/${encodeURIComponent(formId)}/submissions/${encodeURIComponent(instanceId)}`
+    );
+  }
+
+  if (!id) {
+    return NextResponse.json({ error: 'Missing submission id' }, { status: 400 });
+  }
+
+  try {
+    // Enketo view links are short-lived, so resolve one per click
+    const view = await koboRequest<{ url?: string }>(
+      project,
+      `/api/v2/assets/${encodeURIComponent(formId)}/data/${encodeURIComponent(id)}/enketo/view/`
+    );
+
+    if (!view.url) {
+      return NextResponse.json({ error: 'KoBoToolbox did not return a view link' }, { status: 502 });
+    }
+
+    return NextResponse.redirect(view.url);
+  } catch (error: any) {
+    if (error instanceof KoBoApiError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Submission link error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to open submission in KoBoToolbox' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataSourceApiError, type SubmissionIdentity } from '@/lib/dataSource';
+import { DEFAULT_PROJECT_ID, getProject, getProjectSource, secretsMatch } from '@/lib/projects';
+import type { ValidationStatus } from '@/types';
+
+const VALIDATION_STATUSES: ValidationStatus[] = ['approved', 'not-approved', 'on-hold'];
+
+interface ValidationRequestBody {
+  projectId?: string;
+  status?: ValidationStatus;
+  submissions?: { formUid?: string | null; id?: number | string | null; uuid?: string | null }[];
+}
+
+// Sets the validation status (KoBo) or review state (ODK Central) of one or many submissions.
+// Requires the project's review secret in an "X-Review-Secret" header.
+export async function PATCH(request: NextRequest) {
+  let body: ValidationRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const project = getProject(body.projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${body.projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (!project.reviewSecret) {
+    return NextResponse.json(
+      { error: 'Review write-back is not enabled for this project' },
+      { status: 403 }
+    );
+  }
+
+  const providedSecret = request.headers.get('x-review-secret') ?? '';
+  if (!secretsMatch(providedSecret, project.reviewSecret)) {
+    return NextResponse.json({ error: 'Invalid review secret' }, { status: 401 });
+  }
+
+  const status = body.status;
+  if (!status || !VALIDATION_STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Status must be one of ${VALIDATION_STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  const submissions = Array.isArray(body.submissions) ? body.submissions : [];
+  if (submissions.length === 0) {
+    return NextResponse.json({ error: 'No submissions to update' }, { status: 400 });
+  }
+
+  // One request per form, since both back-ends address submissions through their form
+  const byForm = new Map<string, SubmissionIdentity[]>();
+  for (const submission of submissions) {
+    const formId = submission.formUid || project.formId;
+    if (!project.forms.some((form) => form.formId === formId)) {
+      return NextResponse.json({ error: `Form ${formId} is not part of project ${project.id}` }, { status: 400 });
+    }
+    const id = Number(submission.id);
+    const identity: SubmissionIdentity = {
+      id: Number.isInteger(id) && submission.id !== null && submission.id !== '' ? id : null,
+      uuid: submission.uuid ? String(submission.uuid) : null,
+    };
+    if (identity.id === null && identity.uuid === null) {
+      return NextResponse.json({ error: 'Each submission needs an id or uuid' }, { status: 400 });
+    }
+    byForm.set(formId, [...(byForm.get(formId) ?? []), identity]);
+  }
+
+  try {
+    const source = getProjectSource(project);
+    for (const [formId, identities] of byForm) {
+      await source.setValidationStatus(formId, identities, status);
+    }
+
+    return NextResponse.json({ status, updated: submissions.length });
+  } catch (error: any) {
+    if (error instanceof DataSourceApiError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.details,
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error('Validation status error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update validation status' },
+      { status: 500 }
+    );
+  }
+}
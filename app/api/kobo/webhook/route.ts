@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROJECT_ID, getProject, secretsMatch } from '@/lib/projects';
+import { FORM_ROLE_KEY, FORM_UID_KEY, getRecordKey } from '@/lib/submissions';
+import { createServiceClient, SubmissionService } from '@/lib/supabase';
+import type { KoBoSubmission } from '@/types';
+
+// Receives KoBo REST Service POSTs (one JSON submission per request).
+// Configure the REST Service endpoint as /api/kobo/webhook?projectId=<id> with an
+// "X-Webhook-Secret" custom header. The secret is never read from the URL, which ends up in logs.
+export async function POST(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const projectId = searchParams.get('projectId');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (!project.webhookSecret) {
+    return NextResponse.json(
+      { error: 'Webhook is not enabled for this project' },
+      { status: 403 }
+    );
+  }
+
+  const providedSecret = request.headers.get('x-webhook-secret') ?? '';
+  if (!secretsMatch(providedSecret, project.webhookSecret)) {
+    return NextResponse.json({ error: 'Invalid webhook secret' }, { status: 401 });
+  }
+
+  let submission: KoBoSubmission;
+  try {
+    submission = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON submission' }, { status: 400 });
+  }
+
+  if (!submission || typeof submission !== 'object') {
+    return NextResponse.json({ error: 'Request body must be a JSON submission' }, { status: 400 });
+  }
+
+  // KoBo sets _xform_id_string to the asset uid, which is how projects list their forms
+  const form = project.forms.find((candidate) => candidate.formId === submission._xform_id_string)
+    ?? (project.forms.length === 1 ? project.forms[0] : undefined);
+  if (!form) {
+    return NextResponse.json(
+      { error: `Form ${submission._xform_id_string ?? '(unknown)'} is not part of project ${project.id}` },
+      { status: 422 }
+    );
+  }
+
+  const payload: KoBoSubmission = { ...submission, [FORM_UID_KEY]: form.formId, [FORM_ROLE_KEY]: form.role };
+  const recordKey = getRecordKey(payload);
+  if (!recordKey) {
+    return NextResponse.json({ error: 'Submission is missing _id and _uuid' }, { status: 400 });
+  }
+
+  try {
+    await SubmissionService.storeSubmission(createServiceClient(), {
+      record_key: recordKey,
+      project_id: project.id,
+      form_uid: form.formId,
+      submission_time: submission._submission_time ?? null,
+      payload,
+    });
+
+    return NextResponse.json({ stored: true, recordKey }, { status: 201 });
+  } catch (error: any) {
+    console.error('Webhook store error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to store submission' },
+      { status: 500 }
+    );
+  }
+}
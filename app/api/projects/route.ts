@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listProjects } from '@/lib/projects';
+
+export async function GET() {
+  return NextResponse.json(
+    { projects: listProjects() },
+    {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    }
+  );
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROJECT_ID, getProject, secretsMatch } from '@/lib/projects';
+import { createServiceClient, TargetVersionService } from '@/lib/supabase';
+import { buildVillageTargets, rowsFromRecords, targetRowToRecord, validateTargetRows } from '@/lib/villageTargets';
+import type { TargetRow } from '@/types';
+
+interface SaveVersionBody {
+  projectId?: string;
+  rows?: Partial<TargetRow>[];
+  author?: string;
+  note?: string;
+}
+
+// Lists a project's target versions, or returns one with ?version=<n>
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const projectId = params.get('projectId');
+  const version = params.get('version');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const client = createServiceClient();
+
+    if (version === null) {
+      const versions = await TargetVersionService.listVersions(client, project.id);
+      return NextResponse.json({ versions });
+    }
+
+    const number = Number(version);
+    const stored = Number.isInteger(number) ? await TargetVersionService.getVersion(client, project.id, number) : null;
+    if (!stored) {
+      return NextResponse.json({ error: `Target version ${version} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ version: stored });
+  } catch (error: any) {
+    console.error('Target versions error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load target versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Saves a new version. Requires the project's review secret in an "X-Review-Secret" header.
+export async function POST(request: NextRequest) {
+  let body: SaveVersionBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const project = getProject(body.projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${body.projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (!project.reviewSecret) {
+    return NextResponse.json(
+      { error: 'Target editing is not enabled for this project' },
+      { status: 403 }
+    );
+  }
+
+  const providedSecret = request.headers.get('x-review-secret') ?? '';
+  if (!secretsMatch(providedSecret, project.reviewSecret)) {
+    return NextResponse.json({ error: 'Invalid review secret' }, { status: 401 });
+  }
+
+  const author = body.author?.trim();
+  const note = body.note?.trim();
+  if (!author || !note) {
+    return NextResponse.json({ error: 'Say who is changing the targets and why' }, { status: 400 });
+  }
+
+  // Re-read through the file mapping so only known columns are stored
+  const rows = rowsFromRecords((Array.isArray(body.rows) ? body.rows : []).map(targetRowToRecord));
+  const errors = validateTargetRows(rows).filter((issue) => issue.severity === 'error');
+  if (rows.length === 0 || errors.length > 0) {
+    return NextResponse.json(
+      {
+        error: rows.length === 0 ? 'No target rows to save' : 'Targets have errors',
+        details: errors,
+      },
+      { status: 422 }
+    );
+  }
+
+  const villages = Object.values(buildVillageTargets(rows)).flatMap((district) => Object.values(district));
+
+  try {
+    const version = await TargetVersionService.createVersion(createServiceClient(), {
+      project_id: project.id,
+      rows,
+      author,
+      note,
+      village_count: villages.length,
+      total_expected: villages.reduce((sum, village) => sum + village.expected, 0),
+    });
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error: any) {
+    console.error('Target version save error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save target version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_PROJECT_ID, getProject, secretsMatch } from '@/lib/projects';
+import { createServiceClient, VillageAliasService } from '@/lib/supabase';
+import type { VillageRef } from '@/types';
+
+interface SetAliasBody {
+  projectId?: string;
+  key?: string;
+  // null removes the alias
+  target?: VillageRef | null;
+}
+
+// Lists a project's village aliases
+export async function GET(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId');
+
+  const project = getProject(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const aliases = await VillageAliasService.listAliases(createServiceClient(), project.id);
+    return NextResponse.json({ aliases });
+  } catch (error: any) {
+    console.error('Village aliases error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load village aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+// Saves or removes one alias and returns the project's updated table.
+// Requires the project's review secret in an "X-Review-Secret" header.
+export async function POST(request: NextRequest) {
+  let body: SetAliasBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const project = getProject(body.projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: `Unknown or unconfigured project: ${body.projectId || DEFAULT_PROJECT_ID}` },
+      { status: 404 }
+    );
+  }
+
+  if (!project.reviewSecret) {
+    return NextResponse.json(
+      { error: 'Village alias editing is not enabled for this project' },
+      { status: 403 }
+    );
+  }
+
+  const providedSecret = request.headers.get('x-review-secret') ?? '';
+  if (!secretsMatch(providedSecret, project.reviewSecret)) {
+    return NextResponse.json({ error: 'Invalid review secret' }, { status: 401 });
+  }
+
+  const { key, target } = body;
+  const validTarget =
+    target === null || (typeof target?.district === 'string' && typeof target?.village === 'string');
+  if (typeof key !== 'string' || !key || !validTarget) {
+    return NextResponse.json({ error: 'Expected a key and a target village (or null)' }, { status: 400 });
+  }
+
+  try {
+    const client = createServiceClient();
+    await VillageAliasService.setAlias(
+      client,
+      project.id,
+      key,
+      target ? { district: target.district, village: target.village } : null
+    );
+    const aliases = await VillageAliasService.listAliases(client, project.id);
+    return NextResponse.json({ aliases });
+  } catch (error: any) {
+    console.error('Village alias save error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save village alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import {
   RefreshCw,
@@ -12,215 +12,135 @@ import {
   Navigation,
   Clock,
   ListChecks,
+  SlidersHorizontal,
+  GitMerge,
+  Users,
+  Timer,
+  Copy,
+  Crosshair,
+  MapPinOff,
+  Grid3x3,
+  ShieldAlert,
+  ClipboardCheck,
+  FileSpreadsheet,
+  History,
+  DatabaseZap,
 } from 'lucide-react';
 import Papa from 'papaparse';
-import type { VillageTargets, KoBoSubmission, EnumeratorInfo } from '@/types';
-import { extractEnumeratorInfo, getEnumeratorColor } from '@/lib/enumeratorColors';
-import { LocationService, type EnumeratorLocation } from '@/lib/supabase';
+import type {
+  VillageTargets,
+  KoBoSubmission,
+  EnumeratorInfo,
+  FormSchema,
+  FieldMapping,
+  ProjectForm,
+  AggregationResult,
+  VillageAggregate,
+  VillageAliasTable,
+  VillageRef,
+  UnmatchedVillage,
+  PaceAssessment,
+  CompletionForecast,
+  EnumeratorDayStats,
+  SpeedingFlag,
+  DuplicateGroup,
+  SkippedSimilarityVillage,
+  LocationMismatch,
+  VillageArea,
+  MissingnessReport,
+  QualityRule,
+  QualityRuleResults,
+  QualityThresholds,
+  SubmissionRef,
+  TargetRow,
+  TargetVersionSummary,
+  ValidationStatus,
+} from '@/types';
+import { LocationService, SubmissionService, type EnumeratorLocation } from '@/lib/supabase';
+import { fetchPushedSubmissions, MAX_PUSHED_BATCH } from '@/lib/pushedSubmissions';
+import { advanceWatermarks, extractSubmissionValue, getRecordKey, mergeSubmissions } from '@/lib/submissions';
+import {
+  buildVillageTargets,
+  loadStoredTargetRows,
+  rowsFromRecords,
+  saveStoredTargetRows,
+  validateTargetRows,
+} from '@/lib/villageTargets';
+import { fetchTargetVersion, loadTargetHistory, saveTargetAuthor, saveTargetVersion } from '@/lib/targetVersions';
+import {
+  compileEnumeratorPattern,
+  DEFAULT_FIELD_MAPPING,
+  loadFieldMapping,
+  resetFieldMapping,
+  saveFieldMapping,
+} from '@/lib/fieldMapping';
+import FieldMappingEditor from '@/components/FieldMappingEditor';
+import UnmatchedVillagesPanel from '@/components/UnmatchedVillagesPanel';
+import BurndownChart, { PACE_LABELS } from '@/components/BurndownChart';
+import EnumeratorProductivityPanel from '@/components/EnumeratorProductivityPanel';
+import SpeedingPanel from '@/components/SpeedingPanel';
+import DuplicatesPanel from '@/components/DuplicatesPanel';
+import GpsAccuracyPanel from '@/components/GpsAccuracyPanel';
+import LocationMismatchPanel from '@/components/LocationMismatchPanel';
+import SubmissionDrawer from '@/components/SubmissionDrawer';
+import TargetsManagerPanel from '@/components/TargetsManagerPanel';
+import TargetHistoryPanel from '@/components/TargetHistoryPanel';
+import QuotaProgress from '@/components/QuotaProgress';
+import MissingnessPanel from '@/components/MissingnessPanel';
+import FabricationRiskPanel from '@/components/FabricationRiskPanel';
+import QualityRulesPanel from '@/components/QualityRulesPanel';
+import {
+  loadExcludedSubmissions,
+  loadSharedExclusions,
+  saveExcludedSubmissions,
+  saveSharedExclusion,
+} from '@/lib/exclusions';
+import {
+  DEFAULT_GPS_ACCURACY_THRESHOLD,
+  loadGpsAccuracyThreshold,
+  saveGpsAccuracyThreshold,
+} from '@/lib/gpsAccuracy';
+import { loadVillageBoundaries } from '@/lib/locationValidation';
+import {
+  applyValidationStatus,
+  getValidationStatus,
+  loadReviewSecret,
+  mergeValidationStatuses,
+  pruneDeletedSubmissions,
+  requestValidationStatus,
+  saveReviewSecret,
+} from '@/lib/validationStatus';
+import { ApiRequestError } from '@/lib/apiRequest';
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  getCompletionStatus,
+  getRecencyStatus,
+  loadQualityRules,
+  loadQualityThresholds,
+  saveQualityRules,
+  saveQualityThresholds,
+} from '@/lib/qualityRules';
+import { assessPace, buildBurndownSeries, type BurndownInput } from '@/lib/burndown';
+import { combineRates, estimateDailyRate, forecastCompletion, formatForecast } from '@/lib/forecast';
+import { clearCachedSubmissions, loadCachedSubmissions, saveCachedSubmissions } from '@/lib/submissionCache';
+import {
+  runAggregation,
+  villageIndexKey,
+  type AggregationContext,
+  type AggregationMessage,
+  type AggregationRequest,
+} from '@/lib/aggregation';
+import {
+  addVillageAlias,
+  loadSharedVillageAliases,
+  loadVillageAliases,
+  removeVillageAlias,
+  saveSharedVillageAlias,
+  saveVillageAliases,
+} from '@/lib/villageAliases';
 
 const Map = dynamic(() => import('@/components/Map'), { ssr: false });
 
-const DISTRICT_KEYS = ['district', 'District', '_district', 'grp_general/landscape', 'landscape'];
-const VILLAGE_KEYS = ['village', 'Village', '_village', 'grp_general/village'];
-const TIMESTAMP_KEYS = [
-  '_submission_time',
-  'end',
-  '_updated_at',
-  '_last_updated',
-  '__last_update',
-  'submission_time',
-  'start',
-  'meta/instanceID',
-];
-const FILLABLE_FIELD_EXCLUDES = new Set(
-  [
-    '_attachments',
-    '_chunk',
-    '_id',
-    '_notes',
-    '_status',
-    '_status_string',
-    '_submitted_by',
-    '_uuid',
-    '_version',
-    '_tags',
-    '_validation_status',
-    '_last_edit_date',
-    '__version__',
-    '_xform_id_string',
-    '_duration',
-    '_submission_time',
-    '_updated_at',
-    '_last_updated',
-    '__last_update',
-    '_geolocation',
-    'end',
-    'start',
-    'today',
-    'deviceid',
-    'subscriberid',
-    'simid',
-    'meta',
-    'formhub/uuid',
-    'instanceID',
-    'meta/instanceID',
-    'meta/instanceName',
-    'meta/deprecatedID',
-  ].map((key) => key.toLowerCase())
-);
-
-const normalizeString = (value: unknown): string => {
-  if (value === null || value === undefined) return '';
-  return String(value).trim().toLowerCase();
-};
-
-const extractSubmissionValue = (submission: KoBoSubmission, keys: string[]): string => {
-  for (const key of keys) {
-    const raw = (submission as any)[key];
-    if (raw !== undefined && raw !== null && raw !== '') {
-      return normalizeString(raw);
-    }
-  }
-  return '';
-};
-
-const extractGpsCoordinates = (submission: KoBoSubmission): { lat: number | null; lon: number | null } => {
-  const gps = submission._gps || submission.gps || submission._geolocation;
-
-  let lat: number | null = null;
-  let lon: number | null = null;
-
-  if (typeof gps === 'string') {
-    const coords = gps.split(/[ ,]+/).filter(Boolean);
-    if (coords.length >= 2) {
-      const parsedLat = parseFloat(coords[0]);
-      const parsedLon = parseFloat(coords[1]);
-      lat = Number.isFinite(parsedLat) ? parsedLat : null;
-      lon = Number.isFinite(parsedLon) ? parsedLon : null;
-    }
-  } else if (Array.isArray(gps)) {
-    if (gps.length >= 2) {
-      const parsedLat = parseFloat(gps[0] as any);
-      const parsedLon = parseFloat(gps[1] as any);
-      lat = Number.isFinite(parsedLat) ? parsedLat : null;
-      lon = Number.isFinite(parsedLon) ? parsedLon : null;
-    }
-  } else if (gps && typeof gps === 'object') {
-    const rawLat = (gps as any).latitude ?? (gps as any).lat;
-    const rawLon = (gps as any).longitude ?? (gps as any).lon ?? (gps as any).lng;
-    const parsedLat = rawLat !== undefined ? parseFloat(rawLat) : NaN;
-    const parsedLon = rawLon !== undefined ? parseFloat(rawLon) : NaN;
-    lat = Number.isFinite(parsedLat) ? parsedLat : null;
-    lon = Number.isFinite(parsedLon) ? parsedLon : null;
-  }
-
-  if (lat === null || lon === null) {
-    return { lat: null, lon: null };
-  }
-
-  // Sanity-check ranges; discard obvious noise
-  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-    return { lat: null, lon: null };
-  }
-
-  return { lat, lon };
-};
-
-const extractLatestTimestamp = (submission: KoBoSubmission): Date | null => {
-  let latest: Date | null = null;
-
-  for (const key of TIMESTAMP_KEYS) {
-    const raw = (submission as any)[key];
-    if (!raw) continue;
-
-    const candidate = new Date(raw);
-    if (Number.isNaN(candidate.getTime())) continue;
-
-    if (!latest || candidate > latest) {
-      latest = candidate;
-    }
-  }
-
-  return latest;
-};
-
-const computeFieldFillRate = (submission: KoBoSubmission): number | null => {
-  const stack: Array<{ value: any; path: string }> = [{ value: submission, path: '' }];
-  let totalFields = 0;
-  let filledFields = 0;
-
-  const shouldTrack = (keyPath: string, value: any): boolean => {
-    if (!keyPath) return false;
-    const lowerKey = keyPath.toLowerCase();
-    if (FILLABLE_FIELD_EXCLUDES.has(lowerKey)) return false;
-
-    if (lowerKey.startsWith('_') && !lowerKey.startsWith('_gps') && !lowerKey.startsWith('_location')) {
-      return false;
-    }
-
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      const remainingKeys = Object.keys(value);
-      if (
-        remainingKeys.length > 0 &&
-        remainingKeys.every((innerKey) => {
-          const combined = `${lowerKey}/${innerKey.toLowerCase()}`;
-          return (
-            FILLABLE_FIELD_EXCLUDES.has(innerKey.toLowerCase()) || FILLABLE_FIELD_EXCLUDES.has(combined)
-          );
-        })
-      ) {
-        return false;
-      }
-    }
-
-    return true;
-  };
-
-  while (stack.length > 0) {
-    const { value, path } = stack.pop()!;
-
-    if (value === null || value === undefined) continue;
-
-    if (Array.isArray(value)) {
-      value.forEach((item, index) => {
-        stack.push({ value: item, path: path ? `${path}[${index}]` : `[${index}]` });
-      });
-      continue;
-    }
-
-    if (typeof value === 'object') {
-      Object.entries(value).forEach(([key, child]) => {
-        const nextPath = path ? `${path}/${key}` : key;
-        stack.push({ value: child, path: nextPath });
-      });
-      continue;
-    }
-
-    if (shouldTrack(path, value)) {
-      totalFields += 1;
-      const trimmed =
-        typeof value === 'string'
-          ? value.trim()
-          : typeof value === 'number'
-            ? value
-            : typeof value === 'boolean'
-              ? value
-              : value;
-      if (
-        trimmed !== '' &&
-        trimmed !== null &&
-        trimmed !== undefined &&
-        !(typeof trimmed === 'number' && Number.isNaN(trimmed))
-      ) {
-        filledFields += 1;
-      }
-    }
-  }
-
-  if (totalFields === 0) return null;
-  return Math.round((filledFields / totalFields) * 100);
-};
-
 const formatEnumeratorSummary = (enumerator: EnumeratorInfo): string => {
   const total = enumerator.submissionCount;
   const gps = enumerator.gpsSubmissionCount;
@@ -239,17 +159,69 @@ const formatEnumeratorSummary = (enumerator: EnumeratorInfo): string => {
 };
 
 export default function Dashboard() {
+  // Targets as loaded from the CSV; villageTargets holds them with progress applied
+  const [baseTargets, setBaseTargets] = useState<VillageTargets>({});
   const [villageTargets, setVillageTargets] = useState<VillageTargets>({});
+  const [villageAggregates, setVillageAggregates] = useState<Record<string, VillageAggregate>>({});
   const [surveyData, setSurveyData] = useState<KoBoSubmission[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [config] = useState({
-    serverUrl: 'https://eu.kobotoolbox.org',
-    formId: 'aYaMawNU6Sssr59N46giCi',
-    apiToken: '7101ae5c9f20b2a50134798b08264072c14afaff',
+  // KoBo credentials live server-side; the browser only knows which project to ask for
+  const [projectId] = useState(process.env.NEXT_PUBLIC_DEFAULT_PROJECT_ID || 'default');
+  const [projectForms, setProjectForms] = useState<ProjectForm[]>([]);
+  const [formSchema, setFormSchema] = useState<FormSchema | null>(null);
+  const [fieldMapping, setFieldMapping] = useState<FieldMapping>(DEFAULT_FIELD_MAPPING);
+  const [showFieldMapping, setShowFieldMapping] = useState(false);
+  const [villageAliases, setVillageAliases] = useState<VillageAliasTable>({});
+  // Whether aliases are stored on the server for everyone, rather than in this browser
+  const [sharedAliases, setSharedAliases] = useState(false);
+  const [unmatchedVillages, setUnmatchedVillages] = useState<UnmatchedVillage[]>([]);
+  const [showUnmatched, setShowUnmatched] = useState(false);
+  const [enumeratorDays, setEnumeratorDays] = useState<Record<string, Record<string, EnumeratorDayStats>>>({});
+  const [showProductivity, setShowProductivity] = useState(false);
+  const [speedingFlags, setSpeedingFlags] = useState<SpeedingFlag[]>([]);
+  const [showSpeeding, setShowSpeeding] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [similaritySkipped, setSimilaritySkipped] = useState<SkippedSimilarityVillage[]>([]);
+  const [excludedRecords, setExcludedRecords] = useState<string[]>([]);
+  // Whether exclusions are stored on the server for everyone, rather than in this browser
+  const [sharedExclusions, setSharedExclusions] = useState(false);
+  const [isUpdatingValidation, setIsUpdatingValidation] = useState(false);
+  // Submission shown in the detail drawer
+  const [selectedRecordKey, setSelectedRecordKey] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [gpsAccuracyThreshold, setGpsAccuracyThreshold] = useState(DEFAULT_GPS_ACCURACY_THRESHOLD);
+  const [showGpsAccuracy, setShowGpsAccuracy] = useState(false);
+  const [locationMismatches, setLocationMismatches] = useState<LocationMismatch[]>([]);
+  const [showLocationMismatches, setShowLocationMismatches] = useState(false);
+  const [missingness, setMissingness] = useState<MissingnessReport>({ questions: [], byVillage: {}, byEnumerator: {} });
+  const [showMissingness, setShowMissingness] = useState(false);
+  const [showFabricationRisk, setShowFabricationRisk] = useState(false);
+  const [qualityRules, setQualityRules] = useState<QualityRule[]>([]);
+  const [ruleResults, setRuleResults] = useState<QualityRuleResults>({
+    checked: {},
+    violations: [],
+    errors: {},
+    evaluationErrors: {},
   });
+  const [qualityThresholds, setQualityThresholds] = useState<QualityThresholds>(DEFAULT_QUALITY_THRESHOLDS);
+  const [showQualityRules, setShowQualityRules] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  // Rows behind baseTargets, and those of public/village-targets.csv for restoring after edits
+  const [targetRows, setTargetRows] = useState<TargetRow[]>([]);
+  const [defaultTargetRows, setDefaultTargetRows] = useState<TargetRow[]>([]);
+  const [hasCustomTargets, setHasCustomTargets] = useState(false);
+  const [villageBoundaries, setVillageBoundaries] = useState<Record<string, VillageArea>>({});
+  const [showTargetsManager, setShowTargetsManager] = useState(false);
+  // Server-side target versions, newest first; null when the server keeps no history
+  const [targetVersions, setTargetVersions] = useState<TargetVersionSummary[] | null>(null);
+  // Earlier version that progress is being measured against instead of targetRows
+  const [viewedTargetVersion, setViewedTargetVersion] = useState<number | null>(null);
+  const [isSavingTargets, setIsSavingTargets] = useState(false);
+  const [showTargetHistory, setShowTargetHistory] = useState(false);
   const [hasAttemptedAutoConnect, setHasAttemptedAutoConnect] = useState(false);
   const [selectedVillage, setSelectedVillage] = useState<{district: string, village: string} | null>(null);
   const [mapKey, setMapKey] = useState(0);
@@ -264,6 +236,49 @@ export default function Dashboard() {
   const [allEnumerators, setAllEnumerators] = useState<globalThis.Map<string, EnumeratorInfo>>(new globalThis.Map());
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [otherEnumeratorLocations, setOtherEnumeratorLocations] = useState<EnumeratorLocation[]>([]);
+  // Record keys announced by the webhook whose payloads haven't been fetched yet
+  const [pushedRecordKeys, setPushedRecordKeys] = useState<string[]>([]);
+  const workerRef = useRef<Worker | null>(null);
+  // Only the latest aggregation request may update state; older worker replies are dropped
+  const aggregationRequestRef = useRef(0);
+  // Per-form `since` values for /api/kobo, advanced only by its results (not by webhook pushes)
+  const syncWatermarksRef = useRef<Record<string, string>>({});
+
+  // Aggregate submissions off the main thread so large projects don't freeze the UI
+  useEffect(() => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../lib/aggregation.worker.ts', import.meta.url));
+    } catch (workerError) {
+      console.warn('Aggregation worker unavailable, processing on the main thread:', workerError);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<AggregationMessage>) => {
+      if (event.data.requestId !== aggregationRequestRef.current) return;
+      applyAggregation(event.data.result);
+    };
+    worker.onerror = (workerError) => {
+      console.error('Aggregation worker error:', workerError);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Field mapping, village aliases, exclusions, GPS and quality settings are stored per project in the browser;
+  // shared aliases and exclusions replace this browser's copy once loaded
+  useEffect(() => {
+    setFieldMapping(loadFieldMapping(projectId));
+    setVillageAliases(loadVillageAliases(projectId));
+    setExcludedRecords(loadExcludedSubmissions(projectId));
+    setGpsAccuracyThreshold(loadGpsAccuracyThreshold(projectId));
+    setQualityRules(loadQualityRules(projectId));
+    setQualityThresholds(loadQualityThresholds(projectId));
+  }, [projectId]);
 
   // Auto-load CSV and connect on mount
   useEffect(() => {
@@ -271,8 +286,15 @@ export default function Dashboard() {
       try {
         setIsLoading(true);
 
-        // Fetch CSV from public folder
-        const response = await fetch('/village-targets.csv');
+        // Fetch CSV and the optional village boundary file from public folder, plus any versioned targets,
+        // shared aliases and shared exclusions
+        const [response, boundaries, history, aliases, exclusions] = await Promise.all([
+          fetch('/village-targets.csv'),
+          loadVillageBoundaries(),
+          loadTargetHistory(projectId),
+          loadSharedVillageAliases(projectId),
+          loadSharedExclusions(projectId),
+        ]);
         const csvText = await response.text();
 
         // Parse CSV
@@ -281,7 +303,24 @@ export default function Dashboard() {
           skipEmptyLines: true,
           complete: (results) => {
             console.log('CSV loaded:', results.data.length, 'villages');
-            processVillageTargets(results.data);
+            const defaults = rowsFromRecords(results.data);
+            // The latest server version wins over this browser's edits
+            const stored = history?.latest ? null : loadStoredTargetRows(projectId);
+            setDefaultTargetRows(defaults);
+            setHasCustomTargets(stored !== null);
+            setTargetVersions(history?.versions ?? null);
+            setVillageBoundaries(boundaries);
+            if (aliases) {
+              saveVillageAliases(projectId, aliases);
+              setVillageAliases(aliases);
+              setSharedAliases(true);
+            }
+            if (exclusions) {
+              saveExcludedSubmissions(projectId, exclusions);
+              setExcludedRecords(exclusions);
+              setSharedExclusions(true);
+            }
+            applyTargetRows(history?.latest?.rows ?? stored ?? defaults, boundaries);
             setIsInitialLoad(false);
           },
           error: (parseError: Error) => {
@@ -305,7 +344,28 @@ export default function Dashboard() {
     if (!isInitialLoad && !hasAttemptedAutoConnect && Object.keys(villageTargets).length > 0) {
       console.log('Auto-connecting to KoBoToolbox...');
       setHasAttemptedAutoConnect(true);
-      fetchSurveyData();
+
+      // Open the last cached snapshot straight away, then sync only the delta
+      const connect = async () => {
+        let cached: KoBoSubmission[] = [];
+        try {
+          const snapshot = await loadCachedSubmissions(projectId);
+          cached = snapshot.submissions;
+          if (cached.length > 0) {
+            console.log('Loaded cached submissions:', cached.length);
+            setSurveyData(cached);
+            processSubmissions(cached);
+            setLastSyncedAt(snapshot.lastSyncedAt);
+            syncWatermarksRef.current = snapshot.watermarks;
+          }
+        } catch (cacheError) {
+          console.warn('Failed to read submission cache:', cacheError);
+        }
+        fetchSurveyData(cached);
+      };
+
+      connect();
+      fetchFormSchema();
     }
   }, [isInitialLoad, hasAttemptedAutoConnect, villageTargets]);
 
@@ -365,47 +425,29 @@ export default function Dashboard() {
   }, [villageTargets]);
 
   // Process village targets from CSV
-  const processVillageTargets = (data: any[]) => {
-    const targets: VillageTargets = {};
-
-    data.forEach((row) => {
-      const district = row.District || row.district;
-      const village = row.Village || row.village;
-      const expected = parseInt(row['Optimal Sample (HH)'] || row.optimal_sample || 0);
-      const optimalDays = parseFloat(row['Optimal Days'] || row.optimal_days || 0);
-
-      if (district && village && expected > 0) {
-        // Normalize to lowercase for case-insensitive matching
-        const districtKey = district.toLowerCase();
-        const villageKey = village.toLowerCase();
-
-        if (!targets[districtKey]) {
-          targets[districtKey] = {};
-        }
-        targets[districtKey][villageKey] = {
-          district: district, // Keep original capitalization for display
-          village: village,
-          expected,
-          optimalDays,
-          actual: 0,
-          percentage: 0,
-          households: [],
-        };
-      }
-    });
-
+  // Rows without a usable target are skipped here and listed in the targets manager's report
+  const applyTargetRows = (rows: TargetRow[], boundaries: Record<string, VillageArea>) => {
+    const targets = buildVillageTargets(rows, boundaries);
+    setTargetRows(rows);
+    setBaseTargets(targets);
     setVillageTargets(targets);
+    return targets;
   };
 
   // Fetch survey data from KoBoToolbox
-  const fetchSurveyData = async () => {
+  // Once we hold a snapshot, only submissions newer than its watermark are pulled and merged in
+  const fetchSurveyData = async (baseline: KoBoSubmission[] = surveyData) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const apiUrl = `/api/kobo?server=${encodeURIComponent(config.serverUrl)}&formId=${encodeURIComponent(config.formId)}&token=${encodeURIComponent(config.apiToken)}`;
+      // Forms without a watermark (new to the project or never synced) are fetched in full
+      const watermarks = baseline.length > 0 ? syncWatermarksRef.current : {};
+      const isIncremental = Object.keys(watermarks).length > 0;
+      const params = new URLSearchParams({ projectId });
+      Object.entries(watermarks).forEach(([formUid, since]) => params.set(`since[${formUid}]`, since));
 
-      const response = await fetch(apiUrl, {
+      const response = await fetch(`/api/kobo?${params.toString()}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -438,141 +480,318 @@ export default function Dashboard() {
       }
 
       const data = await response.json();
-      const submissions = data.results || [];
-
-      console.log('Fetched submissions:', submissions.length);
-
+      const fetched: KoBoSubmission[] = data.results || [];
+      // Incremental forms come with their full id list, so records deleted on the server drop out
+      const statuses: KoBoSubmission[] = data.statuses || [];
+      const listedForms = Object.keys(data.since || {});
+      const { submissions: current, removed } = isIncremental
+        ? pruneDeletedSubmissions(mergeSubmissions(baseline, fetched), statuses, listedForms)
+        : { submissions: fetched, removed: [] as KoBoSubmission[] };
+      const { submissions, changed: reviewed } = mergeValidationStatuses(current, statuses);
+
+      console.log(isIncremental ? 'Fetched new submissions since last sync:' : 'Fetched submissions:', fetched.length);
+
+      setProjectForms(data.forms || []);
       setSurveyData(submissions);
       processSubmissions(submissions);
       setIsConnected(true);
+      setIsOffline(false);
       setIsLoading(false);
+
+      const syncedAt = new Date().toISOString();
+      syncWatermarksRef.current = advanceWatermarks(watermarks, fetched);
+      setLastSyncedAt(syncedAt);
+      const sync = { syncedAt, watermarks: syncWatermarksRef.current };
+      // A full fetch replaces the snapshot, so nothing cached before it can linger
+      (isIncremental ? Promise.resolve() : clearCachedSubmissions(projectId))
+        .then(() => saveCachedSubmissions(projectId, [...fetched, ...reviewed], sync, removed))
+        .catch((cacheError) => {
+          console.warn('Failed to update submission cache:', cacheError);
+        });
     } catch (error: any) {
       console.error('Fetch error:', error);
-      setError(`Failed to fetch data: ${error.message}`);
+      // Keep showing the cached snapshot when the network drops
+      setIsOffline(baseline.length > 0);
+      setError(
+        baseline.length > 0
+          ? `Failed to fetch data: ${error.message}. Showing the last synced snapshot.`
+          : `Failed to fetch data: ${error.message}`
+      );
       setIsLoading(false);
       setIsConnected(false);
     }
   };
 
-  // Process submissions and match to villages
-  const processSubmissions = (submissions: KoBoSubmission[]) => {
-    const updatedTargets = JSON.parse(JSON.stringify(villageTargets));
-    const enumeratorMap = new globalThis.Map<string, EnumeratorInfo>();
+  // Fetches every submission again; the cached snapshot and watermarks are replaced once it succeeds
+  const handleFullResync = () => {
+    if (!window.confirm('Download every submission for this project again and replace the cached copy?')) return;
+    syncWatermarksRef.current = {};
+    fetchSurveyData([]);
+  };
 
-    // Reset counts
-    Object.values(updatedTargets).forEach((district: any) => {
-      Object.values(district).forEach((village: any) => {
-        village.actual = 0;
-        village.households = [];
+  // Fetch the form definition so questions and choices can be labelled
+  const fetchFormSchema = async () => {
+    try {
+      const response = await fetch(`/api/kobo/schema?projectId=${encodeURIComponent(projectId)}`, {
+        headers: { 'Accept': 'application/json' },
       });
-    });
+      if (!response.ok) {
+        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      }
+      const data = await response.json();
+      setFormSchema(data.schema ?? null);
+    } catch (error: any) {
+      // Non-fatal: without a schema we fall back to the heuristic fill rate and raw keys
+      console.warn('Failed to load form schema:', error);
+    }
+  };
 
-    // Track E023 submissions specifically
-    const e023Submissions: any[] = [];
-
-    // Process each submission
-    submissions.forEach((submission) => {
-      const { lat, lon } = extractGpsCoordinates(submission);
-      const hasValidGps = lat !== null && lon !== null;
-
-      // Extract enumerator information
-      const enumeratorInfo = extractEnumeratorInfo(submission);
-      if (enumeratorInfo) {
-        // Track E023 specifically
-        if (enumeratorInfo.id === 'E023') {
-          const district = submission.district ||
-                           submission.District ||
-                           submission._district ||
-                           submission['grp_general/landscape'] ||
-                           submission.landscape;
-          const village = submission.village ||
-                          submission.Village ||
-                          submission._village ||
-                          submission['grp_general/village'];
-          e023Submissions.push({
-            district: district,
-            village: village,
-            hasGps: hasValidGps,
-            timestamp: submission._submission_time || submission.end || submission.start,
-          });
-        }
+  const applyAggregation = (result: AggregationResult) => {
+    setVillageTargets(result.villageTargets);
+    setVillageAggregates(result.villages);
+    setAllEnumerators(new globalThis.Map(result.enumerators.map((info) => [info.id, info])));
+    setUnmatchedVillages(result.unmatched);
+    setEnumeratorDays(result.enumeratorDays);
+    setMissingness(result.missingness);
+    setRuleResults(result.ruleResults);
+    // Progress snapshots skip speeding, duplicate and location checks; keep the last full result until the next one
+    if (result.processed >= result.total) {
+      setSpeedingFlags(result.speeding);
+      setDuplicateGroups(result.duplicates.groups);
+      setSimilaritySkipped(result.duplicates.skippedVillages);
+      setLocationMismatches(result.locationMismatches);
+    }
+  };
 
-        const existing = enumeratorMap.get(enumeratorInfo.id);
-        const target = existing ?? {
-          id: enumeratorInfo.id,
-          name: enumeratorInfo.name,
-          color: '', // Assigned after processing all enumerators
-          submissionCount: 0,
-          gpsSubmissionCount: 0,
-          missingGpsCount: 0,
-        };
-
-        target.submissionCount += 1;
-        if (hasValidGps) {
-          target.gpsSubmissionCount += 1;
-        } else {
-          target.missingGpsCount += 1;
-        }
+  // Process submissions and match to villages (in the aggregation worker when available)
+  // Pass overrides when state was just updated and this render's values are stale
+  const processSubmissions = (
+    submissions: KoBoSubmission[],
+    overrides: Partial<AggregationContext & { targets: VillageTargets }> = {}
+  ) => {
+    aggregationRequestRef.current += 1;
+    const request: AggregationRequest = {
+      requestId: aggregationRequestRef.current,
+      targets: baseTargets,
+      submissions,
+      mapping: fieldMapping,
+      formSchema,
+      aliases: villageAliases,
+      excluded: excludedRecords,
+      rules: qualityRules,
+      ...overrides,
+    };
 
-        if (!existing) {
-          enumeratorMap.set(enumeratorInfo.id, target);
-        }
+    if (workerRef.current) {
+      workerRef.current.postMessage(request);
+    } else {
+      applyAggregation(runAggregation(request));
+    }
+  };
+
+  // Latest committed snapshot and aggregation context, for handlers that resume after an await
+  const surveyDataRef = useRef(surveyData);
+  const processSubmissionsRef = useRef(processSubmissions);
+  useEffect(() => {
+    surveyDataRef.current = surveyData;
+    processSubmissionsRef.current = processSubmissions;
+  });
+
+  // Fill rates depend on the form schema, which usually arrives after the first sync
+  useEffect(() => {
+    if (formSchema && surveyData.length > 0) {
+      processSubmissions(surveyData);
+    }
+  }, [formSchema]);
+
+  const handleSaveFieldMapping = (mapping: FieldMapping) => {
+    saveFieldMapping(projectId, mapping);
+    setFieldMapping(mapping);
+    setShowFieldMapping(false);
+    processSubmissions(surveyData, { mapping });
+  };
+
+  const handleResetFieldMapping = () => {
+    resetFieldMapping(projectId);
+    setFieldMapping(DEFAULT_FIELD_MAPPING);
+    setShowFieldMapping(false);
+    processSubmissions(surveyData, { mapping: DEFAULT_FIELD_MAPPING });
+  };
+
+  const updateVillageAliases = (aliases: VillageAliasTable) => {
+    saveVillageAliases(projectId, aliases);
+    setVillageAliases(aliases);
+    processSubmissions(surveyData, { aliases });
+  };
+
+  // Shared aliases go through the server, which returns everyone's latest table
+  const saveVillageAlias = async (key: string, target: VillageRef | null) => {
+    const secret = loadReviewSecret(projectId) ?? window.prompt('Review secret for this project')?.trim();
+    if (!secret) return;
+
+    try {
+      updateVillageAliases(await saveSharedVillageAlias(projectId, secret, key, target));
+      saveReviewSecret(projectId, secret);
+    } catch (aliasError: any) {
+      if (aliasError instanceof ApiRequestError && aliasError.status === 401) {
+        saveReviewSecret(projectId, null);
       }
+      setError(`Failed to ${target ? 'save' : 'remove'} village alias: ${aliasError.message}`);
+    }
+  };
 
-      const district = submission.district ||
-                       submission.District ||
-                       submission._district ||
-                       submission['grp_general/landscape'] ||
-                       submission.landscape;
-
-      const village = submission.village ||
-                      submission.Village ||
-                      submission._village ||
-                      submission['grp_general/village'];
-
-      const districtKey = district ? district.toLowerCase() : '';
-      const villageKey = village ? village.toLowerCase() : '';
-
-      if (districtKey && villageKey && updatedTargets[districtKey]?.[villageKey]) {
-        updatedTargets[districtKey][villageKey].actual++;
-
-        if (hasValidGps) {
-          updatedTargets[districtKey][villageKey].households.push({
-            lat: lat as number,
-            lon: lon as number,
-            data: submission,
-            enumeratorId: enumeratorInfo?.id,
-            enumeratorName: enumeratorInfo?.name,
-          });
-        }
+  const handleConfirmVillageAlias = (source: VillageRef, target: VillageRef) => {
+    if (sharedAliases) {
+      saveVillageAlias(villageIndexKey(source.district, source.village), target);
+    } else {
+      updateVillageAliases(addVillageAlias(villageAliases, source, target));
+    }
+  };
+
+  const handleRemoveVillageAlias = (key: string) => {
+    if (sharedAliases) {
+      saveVillageAlias(key, null);
+    } else {
+      updateVillageAliases(removeVillageAlias(villageAliases, key));
+    }
+  };
+
+  const updateExcludedRecords = (excluded: string[]) => {
+    saveExcludedSubmissions(projectId, excluded);
+    setExcludedRecords(excluded);
+    processSubmissions(surveyData, { excluded });
+  };
+
+  // Shared exclusions go through the server, which returns everyone's latest list
+  const handleToggleExcluded = async (recordKey: string) => {
+    const exclude = !excludedRecords.includes(recordKey);
+    if (!sharedExclusions) {
+      updateExcludedRecords(
+        exclude ? [...excludedRecords, recordKey] : excludedRecords.filter((key) => key !== recordKey)
+      );
+      return;
+    }
+
+    const secret = loadReviewSecret(projectId) ?? window.prompt('Review secret for this project')?.trim();
+    if (!secret) return;
+
+    try {
+      updateExcludedRecords(await saveSharedExclusion(projectId, secret, recordKey, exclude));
+      saveReviewSecret(projectId, secret);
+    } catch (exclusionError: any) {
+      if (exclusionError instanceof ApiRequestError && exclusionError.status === 401) {
+        saveReviewSecret(projectId, null);
       }
-    });
+      setError(`Failed to ${exclude ? 'exclude' : 'restore'} submission: ${exclusionError.message}`);
+    }
+  };
 
-    // Assign colors to enumerators based on sorted IDs
-    const allEnumeratorIds = Array.from(enumeratorMap.keys());
-    enumeratorMap.forEach((info, id) => {
-      info.color = getEnumeratorColor(id, allEnumeratorIds);
-    });
+  // Writes the status to the server first, then mirrors it locally so rejected interviews drop out of the targets
+  const handleValidationStatusChange = async (refs: SubmissionRef[], status: ValidationStatus) => {
+    const secret = loadReviewSecret(projectId) ?? window.prompt('Review secret for this project')?.trim();
+    if (!secret) return;
 
-    // Calculate percentages
-    Object.values(updatedTargets).forEach((district: any) => {
-      Object.values(district).forEach((village: any) => {
-        village.percentage = Math.min(100, Math.round((village.actual / village.expected) * 100));
+    setIsUpdatingValidation(true);
+    try {
+      await requestValidationStatus(projectId, secret, refs, status);
+      saveReviewSecret(projectId, secret);
+
+      // Apply to the latest snapshot: a sync or live merge may have landed while the request was in flight
+      const recordKeys = new Set(refs.map((ref) => ref.recordKey));
+      const updated = applyValidationStatus(surveyDataRef.current, recordKeys, status);
+      surveyDataRef.current = updated;
+      setSurveyData(updated);
+      processSubmissionsRef.current(updated);
+
+      const changed = updated.filter((submission) => {
+        const recordKey = getRecordKey(submission);
+        return recordKey !== null && recordKeys.has(recordKey);
       });
-    });
+      saveCachedSubmissions(projectId, changed).catch((cacheError) => {
+        console.warn('Failed to cache validation status:', cacheError);
+      });
+    } catch (validationError: any) {
+      if (validationError instanceof ApiRequestError && validationError.status === 401) {
+        saveReviewSecret(projectId, null);
+      }
+      setError(`Failed to update validation status: ${validationError.message}`);
+    } finally {
+      setIsUpdatingValidation(false);
+    }
+  };
 
-    // Log E023 submissions for debugging
-    if (e023Submissions.length > 0) {
-      console.log('=== E023 SUBMISSIONS FOUND ===');
-      console.log('Total E023 submissions:', e023Submissions.length);
-      console.log('Villages with E023:', [...new Set(e023Submissions.map(s => s.village))]);
-      console.log('E023 submission details:', e023Submissions);
-    } else {
-      console.log('=== NO E023 SUBMISSIONS FOUND ===');
+  const updateTargets = (rows: TargetRow[], isCustom: boolean) => {
+    saveStoredTargetRows(projectId, isCustom ? rows : null);
+    setHasCustomTargets(isCustom);
+    setShowTargetsManager(false);
+    setViewedTargetVersion(null);
+    const targets = applyTargetRows(rows, villageBoundaries);
+    if (surveyData.length > 0) {
+      processSubmissions(surveyData, { targets });
     }
+  };
 
-    setAllEnumerators(enumeratorMap);
-    setVillageTargets(updatedTargets);
+  // With server history every change becomes a new version; otherwise it's kept in this browser
+  const handleApplyTargets = async (rows: TargetRow[], change: { author: string; note: string }) => {
+    if (targetVersions === null) {
+      updateTargets(rows, true);
+      return;
+    }
+
+    const secret = loadReviewSecret(projectId) ?? window.prompt('Review secret for this project')?.trim();
+    if (!secret) return;
+
+    setIsSavingTargets(true);
+    try {
+      const saved = await saveTargetVersion(projectId, secret, { rows, ...change });
+      saveReviewSecret(projectId, secret);
+      saveTargetAuthor(change.author);
+      setTargetVersions((prev) => [saved, ...(prev ?? [])]);
+      updateTargets(rows, false);
+    } catch (saveError: any) {
+      if (saveError instanceof ApiRequestError && saveError.status === 401) {
+        saveReviewSecret(projectId, null);
+      }
+      setError(`Failed to save targets: ${saveError.message}`);
+    } finally {
+      setIsSavingTargets(false);
+    }
+  };
+
+  // Measure progress against an earlier version's targets; null goes back to the current ones
+  const handleViewTargetVersion = async (version: number | null) => {
+    try {
+      const rows = version === null ? targetRows : (await fetchTargetVersion(projectId, version)).rows;
+      const targets = buildVillageTargets(rows, villageBoundaries);
+      setViewedTargetVersion(version);
+      setBaseTargets(targets);
+      setVillageTargets(targets);
+      setShowTargetHistory(false);
+      setShowTargetsManager(false);
+      if (surveyData.length > 0) {
+        processSubmissions(surveyData, { targets });
+      }
+    } catch (viewError: any) {
+      setError(`Failed to load targets v${version}: ${viewError.message}`);
+    }
+  };
+
+  const handleResetTargets = () => updateTargets(defaultTargetRows, false);
+
+  const handleQualityRulesChange = (rules: QualityRule[]) => {
+    saveQualityRules(projectId, rules);
+    setQualityRules(rules);
+    processSubmissions(surveyData, { rules });
+  };
+
+  const handleQualityThresholdsChange = (thresholds: QualityThresholds) => {
+    saveQualityThresholds(projectId, thresholds);
+    setQualityThresholds(thresholds);
+  };
+
+  const handleGpsAccuracyThresholdChange = (threshold: number) => {
+    saveGpsAccuracyThreshold(projectId, threshold);
+    setGpsAccuracyThreshold(threshold);
   };
 
   // Handle village card click to zoom map
@@ -605,70 +824,111 @@ export default function Dashboard() {
   const villageEnumerators = useMemo(() => {
     if (!selectedVillage) return [];
 
-    const enumeratorMap = new globalThis.Map<string, EnumeratorInfo>();
-    const selectedDistrictKey = selectedVillage.district;
-    const selectedVillageKey = selectedVillage.village;
-    const enumeratorIdsForColor = Array.from(allEnumerators.keys());
+    const aggregate = villageAggregates[villageIndexKey(selectedVillage.district, selectedVillage.village)];
+    return [...(aggregate?.enumerators ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+  }, [selectedVillage, villageAggregates]);
+
+  const burndownInput = (district: string, village: string): BurndownInput | null => {
+    const target = villageTargets[district]?.[village];
+    if (!target) return null;
+    return {
+      expected: target.expected,
+      optimalDays: target.optimalDays,
+      dailyCounts: villageAggregates[villageIndexKey(district, village)]?.dailyCounts ?? {},
+    };
+  };
+
+  // Planned pace per village, keyed by villageIndexKey
+  const villagePace = useMemo(() => {
+    const pace: Record<string, PaceAssessment> = {};
+    Object.entries(villageTargets).forEach(([district, villages]) => {
+      Object.keys(villages).forEach((village) => {
+        const input = burndownInput(district, village);
+        if (input) pace[villageIndexKey(district, village)] = assessPace([input]);
+      });
+    });
+    return pace;
+  }, [villageTargets, villageAggregates]);
+
+  // Stable list for panels that memoize on it
+  const enumeratorList = useMemo(() => Array.from(allEnumerators.values()), [allEnumerators]);
+
+  const selectedSubmission = useMemo(
+    () =>
+      selectedRecordKey
+        ? surveyData.find((submission) => getRecordKey(submission) === selectedRecordKey)
+        : undefined,
+    [surveyData, selectedRecordKey]
+  );
 
-    console.log(`=== Extracting enumerators for ${selectedVillageKey} ===`);
-    let totalSubmissionsForVillage = 0;
-    let submissionsWithEnumerator = 0;
-    let submissionsWithoutEnumerator = 0;
+  // Districts the targets manager treats as known when checking a new file
+  const knownDistricts = useMemo(() => {
+    const districts = new Set(Object.keys(baseTargets));
+    surveyData.forEach((submission) => {
+      const district = extractSubmissionValue(submission, fieldMapping.districtKeys);
+      if (district) districts.add(district);
+    });
+    return Array.from(districts);
+  }, [baseTargets, surveyData, fieldMapping]);
+
+  const viewedTargetSummary = targetVersions?.find((version) => version.version === viewedTargetVersion) ?? null;
+
+  // Applied rows that were skipped or need attention, shown as a badge on the Targets button
+  const targetIssueCount = useMemo(
+    () =>
+      validateTargetRows(targetRows).filter((issue) => issue.severity === 'error' || issue.kind === 'missing-target')
+        .length,
+    [targetRows]
+  );
 
+  const validationStatuses = useMemo(() => {
+    const statuses: Record<string, ValidationStatus> = {};
     surveyData.forEach((submission) => {
-      const districtKey = extractSubmissionValue(submission, DISTRICT_KEYS);
-      const villageKey = extractSubmissionValue(submission, VILLAGE_KEYS);
-
-      if (districtKey === selectedDistrictKey && villageKey === selectedVillageKey) {
-        totalSubmissionsForVillage++;
-        const enumeratorInfo = extractEnumeratorInfo(submission);
-        if (!enumeratorInfo) {
-          submissionsWithoutEnumerator++;
-          console.log('No enumerator found for submission:', {
-            district: districtKey,
-            village: villageKey,
-            fields: Object.keys(submission).filter(k => k.toLowerCase().includes('enum')),
-          });
-          return;
-        }
-        submissionsWithEnumerator++;
-
-        const base = allEnumerators.get(enumeratorInfo.id);
-        const existing = enumeratorMap.get(enumeratorInfo.id);
-        const target = existing ?? {
-          id: enumeratorInfo.id,
-          name: base?.name ?? enumeratorInfo.name,
-          color: base?.color ?? getEnumeratorColor(enumeratorInfo.id, enumeratorIdsForColor),
-          submissionCount: 0,
-          gpsSubmissionCount: 0,
-          missingGpsCount: 0,
-        };
-
-        target.submissionCount += 1;
-
-        const { lat, lon } = extractGpsCoordinates(submission);
-        if (lat !== null && lon !== null) {
-          target.gpsSubmissionCount += 1;
-        } else {
-          target.missingGpsCount += 1;
-        }
+      const recordKey = getRecordKey(submission);
+      const status = getValidationStatus(submission);
+      if (recordKey && status) statuses[recordKey] = status;
+    });
+    return statuses;
+  }, [surveyData]);
 
-        if (!existing) {
-          enumeratorMap.set(enumeratorInfo.id, target);
-        }
-      }
+  // Projected finish per village (keyed by villageIndexKey) and for the whole survey
+  const forecasts = useMemo(() => {
+    const villages: Record<string, CompletionForecast> = {};
+    const villageRates: ReturnType<typeof estimateDailyRate>[] = [];
+    let surveyRemaining = 0;
+
+    Object.entries(villageTargets).forEach(([district, districtVillages]) => {
+      Object.entries(districtVillages).forEach(([village, target]) => {
+        const key = villageIndexKey(district, village);
+        const rate = estimateDailyRate(villageAggregates[key]?.dailyCounts ?? {});
+        const remaining = Math.max(0, target.expected - target.actual);
+        villages[key] = forecastCompletion(remaining, rate);
+        villageRates.push(rate);
+        surveyRemaining += remaining;
+      });
     });
 
-    console.log(`Village: ${selectedVillageKey}`);
-    console.log(`Total submissions: ${totalSubmissionsForVillage}`);
-    console.log(`With enumerator: ${submissionsWithEnumerator}`);
-    console.log(`Without enumerator: ${submissionsWithoutEnumerator}`);
-    console.log('Enumerators found:', Array.from(enumeratorMap.keys()).sort());
+    // Survey pace is the team's combined output; fall back to village rates without enumerator codes
+    const enumeratorRates = Array.from(allEnumerators.values()).map((info) => estimateDailyRate(info.dailyCounts));
+    const surveyRate = combineRates(enumeratorRates.length > 0 ? enumeratorRates : villageRates);
 
-    return Array.from(enumeratorMap.values()).sort((a, b) =>
-      a.name.localeCompare(b.name)
-    );
-  }, [selectedVillage, surveyData, allEnumerators]);
+    return { villages, survey: forecastCompletion(surveyRemaining, surveyRate) };
+  }, [villageTargets, villageAggregates, allEnumerators]);
+
+  const selectedBurndown = useMemo(() => {
+    if (!selectedVillage) return null;
+    const villageInput = burndownInput(selectedVillage.district, selectedVillage.village);
+    const districtInputs = Object.keys(villageTargets[selectedVillage.district] ?? {})
+      .map((village) => burndownInput(selectedVillage.district, village))
+      .filter((input): input is BurndownInput => input !== null);
+
+    return {
+      village: villageInput
+        ? { series: buildBurndownSeries([villageInput]), pace: assessPace([villageInput]) }
+        : null,
+      district: { series: buildBurndownSeries(districtInputs), pace: assessPace(districtInputs) },
+    };
+  }, [selectedVillage, villageTargets, villageAggregates]);
 
   useEffect(() => {
     if (!selectedEnumerator) return;
@@ -699,31 +959,12 @@ export default function Dashboard() {
     const remainingSamples = Math.max(expected - actual, 0);
     const missingGps = Math.max(actual - householdsWithGps, 0);
 
-    const selectedDistrictKey = selectedVillage.district;
-    const selectedVillageKey = selectedVillage.village;
-
-    const matchingSubmissions = surveyData.filter((submission) => {
-      const districtKey = extractSubmissionValue(submission, DISTRICT_KEYS);
-      const villageKey = extractSubmissionValue(submission, VILLAGE_KEYS);
-      return districtKey === selectedDistrictKey && villageKey === selectedVillageKey;
-    });
-
-    let latestSubmission: Date | null = null;
-    let fillRates: number[] = [];
-    matchingSubmissions.forEach((submission) => {
-      const candidate = extractLatestTimestamp(submission);
-      if (candidate && (!latestSubmission || candidate > latestSubmission)) {
-        latestSubmission = candidate;
-      }
-
-      const fill = computeFieldFillRate(submission);
-      if (fill !== null && !Number.isNaN(fill)) {
-        fillRates.push(fill);
-      }
-    });
-
+    const aggregate = villageAggregates[villageIndexKey(selectedVillage.district, selectedVillage.village)];
+    const latestSubmission = aggregate?.latestSubmission ? new Date(aggregate.latestSubmission) : null;
     const averageFieldCompletion =
-      fillRates.length > 0 ? Math.round(fillRates.reduce((a, b) => a + b, 0) / fillRates.length) : null;
+      aggregate && aggregate.fillRateCount > 0
+        ? Math.round(aggregate.fillRateTotal / aggregate.fillRateCount)
+        : null;
 
     const daysSinceLastSubmission = latestSubmission
       ? (() => {
@@ -735,32 +976,6 @@ export default function Dashboard() {
         })()
       : null;
 
-    const formatStatus = (value: number | null) => {
-      if (value === null) {
-        return { label: 'No data', tone: 'bg-muted text-foreground/60' };
-      }
-      if (value >= 90) {
-        return { label: 'On track', tone: 'bg-secondary/50 text-brand-slate' };
-      }
-      if (value >= 70) {
-        return { label: 'Monitor', tone: 'bg-brand-chartreuse/70 text-brand-slate' };
-      }
-      return { label: 'Needs attention', tone: 'bg-brand-coral/70 text-brand-slate' };
-    };
-
-    const recencyStatus = (() => {
-      if (daysSinceLastSubmission === null) {
-        return { label: 'No submissions yet', tone: 'bg-brand-coral/70 text-brand-slate' };
-      }
-      if (daysSinceLastSubmission <= 3) {
-        return { label: 'Up to date', tone: 'bg-secondary/50 text-brand-slate' };
-      }
-      if (daysSinceLastSubmission <= 7) {
-        return { label: 'Check-in soon', tone: 'bg-brand-chartreuse/70 text-brand-slate' };
-      }
-      return { label: 'Needs follow-up', tone: 'bg-brand-coral/70 text-brand-slate' };
-    })();
-
     const latestSubmissionLabel = latestSubmission
       ? (latestSubmission as Date).toLocaleString(undefined, {
           month: 'short',
@@ -785,17 +1000,22 @@ export default function Dashboard() {
       averageFieldCompletion,
       daysSinceLastSubmission,
       latestSubmissionLabel,
-      submissionCount: matchingSubmissions.length,
+      submissionCount: aggregate?.submissionCount ?? 0,
+      formBreakdown: projectForms.map((form) => ({
+        ...form,
+        count: selectedVillageData.formCounts?.[form.formId] ?? 0,
+      })),
       statuses: {
-        completeness: formatStatus(
-          rawCompleteness !== null ? Math.min(100, Math.round(rawCompleteness)) : null
+        completeness: getCompletionStatus(
+          rawCompleteness !== null ? Math.min(100, Math.round(rawCompleteness)) : null,
+          qualityThresholds
         ),
-        gps: formatStatus(gpsCompleteness !== null ? Math.min(100, gpsCompleteness) : null),
-        fieldQuality: formatStatus(averageFieldCompletion),
-        recency: recencyStatus,
+        gps: getCompletionStatus(gpsCompleteness !== null ? Math.min(100, gpsCompleteness) : null, qualityThresholds),
+        fieldQuality: getCompletionStatus(averageFieldCompletion, qualityThresholds),
+        recency: getRecencyStatus(daysSinceLastSubmission, qualityThresholds),
       },
     };
-  }, [selectedVillage, selectedVillageData, surveyData]);
+  }, [selectedVillage, selectedVillageData, villageAggregates, projectForms, qualityThresholds]);
 
   // Auto-detect enumerator code from submissions (Uber-like auto-detection)
   useEffect(() => {
@@ -806,28 +1026,14 @@ export default function Dashboard() {
       return;
     }
 
-    // If no stored code, try to detect from survey submissions
-    // Look for the most recent submission from this device
-    if (surveyData.length > 0) {
-      // Get all unique enumerator codes from submissions
-      const enumeratorCounts = new globalThis.Map<string, number>();
-      surveyData.forEach((submission) => {
-        const enumeratorInfo = extractEnumeratorInfo(submission);
-        if (enumeratorInfo) {
-          const count = enumeratorCounts.get(enumeratorInfo.id) || 0;
-          enumeratorCounts.set(enumeratorInfo.id, count + 1);
-        }
-      });
-
-      // If there's only one enumerator in the data, assume it's the user
-      if (enumeratorCounts.size === 1) {
-        const [code] = Array.from(enumeratorCounts.keys());
-        setMyEnumeratorCode(code);
-        localStorage.setItem('myEnumeratorCode', code);
-        console.log(`Auto-detected enumerator code: ${code}`);
-      }
+    // If no stored code and only one enumerator appears in the data, assume it's the user
+    if (allEnumerators.size === 1) {
+      const [code] = Array.from(allEnumerators.keys());
+      setMyEnumeratorCode(code);
+      localStorage.setItem('myEnumeratorCode', code);
+      console.log(`Auto-detected enumerator code: ${code}`);
     }
-  }, [surveyData]);
+  }, [allEnumerators]);
 
   // Auto-start location sharing for checked-in enumerators
   useEffect(() => {
@@ -963,7 +1169,7 @@ export default function Dashboard() {
     if (!code) return;
 
     const trimmedCode = code.trim().toUpperCase();
-    if (!/^E\d+$/.test(trimmedCode)) {
+    if (!compileEnumeratorPattern(fieldMapping.enumeratorCodePattern).test(trimmedCode)) {
       alert('Invalid enumerator code format. Please use format like E001, E002, etc.');
       return;
     }
@@ -1035,6 +1241,40 @@ export default function Dashboard() {
     };
   }, [myEnumeratorCode]);
 
+  // Subscribe to submissions pushed by the KoBo REST Service webhook
+  useEffect(() => {
+    const unsubscribe = SubmissionService.subscribeToSubmissions(projectId, (recordKey) => {
+      setPushedRecordKeys((prev) => (prev.includes(recordKey) ? prev : [...prev, recordKey]));
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [projectId]);
+
+  // Fetch and merge pushed submissions once the initial sync has populated the dashboard
+  useEffect(() => {
+    if (pushedRecordKeys.length === 0 || !isConnected) return;
+
+    // Any remainder re-runs this effect
+    const batch = pushedRecordKeys.slice(0, MAX_PUSHED_BATCH);
+    setPushedRecordKeys((prev) => prev.filter((recordKey) => !batch.includes(recordKey)));
+
+    fetchPushedSubmissions(projectId, batch)
+      .then((pushed) => {
+        if (pushed.length === 0) return;
+        const merged = mergeSubmissions(surveyDataRef.current, pushed);
+        console.log('Live submissions received:', pushed.length);
+        surveyDataRef.current = merged;
+        setSurveyData(merged);
+        processSubmissionsRef.current(merged);
+        return saveCachedSubmissions(projectId, pushed);
+      })
+      .catch((pushError) => {
+        console.warn('Failed to load live submissions:', pushError);
+      });
+  }, [pushedRecordKeys, isConnected]);
+
   // Periodic cleanup of stale locations (every 2 minutes)
   useEffect(() => {
     const intervalId = setInterval(() => {
@@ -1073,6 +1313,28 @@ export default function Dashboard() {
               <p className="text-sm text-foreground/70">
                 {stats.totalSubmissions} / {stats.totalExpected} samples collected ({stats.overallProgress}%)
               </p>
+              {forecasts.survey.status !== 'not-started' && (
+                <p className="text-xs text-foreground/70">
+                  Projected finish: {formatForecast(forecasts.survey)}
+                  {forecasts.survey.status === 'projected' && ` • ${forecasts.survey.ratePerDay}/day`}
+                </p>
+              )}
+              {lastSyncedAt && (
+                <p className="text-[11px] text-foreground/60">
+                  {isOffline && (
+                    <span className="mr-1.5 px-1.5 py-0.5 rounded-full bg-brand-coral/70 text-brand-slate font-semibold uppercase tracking-wide text-[9px]">
+                      Offline
+                    </span>
+                  )}
+                  Last synced{' '}
+                  {new Date(lastSyncedAt).toLocaleString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </p>
+              )}
             </div>
 
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-4">
@@ -1146,18 +1408,176 @@ export default function Dashboard() {
               </button>
 
               <button
-                onClick={fetchSurveyData}
+                onClick={() => setShowTargetsManager(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Targets
+                {targetIssueCount > 0 && (
+                  <span className="rounded-full bg-amber-100 px-2 text-xs font-semibold text-amber-700">
+                    {targetIssueCount}
+                  </span>
+                )}
+              </button>
+
+              <button
+                onClick={() => setShowFieldMapping(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Fields
+              </button>
+
+              {allEnumerators.size > 0 && (
+                <button
+                  onClick={() => setShowProductivity(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <Users className="w-4 h-4" />
+                  Team
+                </button>
+              )}
+
+              {missingness.questions.length > 0 && (
+                <button
+                  onClick={() => setShowMissingness(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <Grid3x3 className="w-4 h-4" />
+                  Missingness
+                </button>
+              )}
+
+              {allEnumerators.size > 0 && (
+                <button
+                  onClick={() => setShowFabricationRisk(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                  Risk
+                </button>
+              )}
+
+              {surveyData.length > 0 && (
+                <button
+                  onClick={() => setShowQualityRules(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  Rules
+                  {ruleResults.violations.length > 0 && (
+                    <span className="rounded-full bg-danger px-2 text-xs font-semibold text-danger-foreground">
+                      {ruleResults.violations.length}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              {speedingFlags.length > 0 && (
+                <button
+                  onClick={() => setShowSpeeding(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <Timer className="w-4 h-4" />
+                  Speeding
+                  <span className="rounded-full bg-danger px-2 text-xs font-semibold text-danger-foreground">
+                    {speedingFlags.length}
+                  </span>
+                </button>
+              )}
+
+              {(duplicateGroups.length > 0 || similaritySkipped.length > 0) && (
+                <button
+                  onClick={() => setShowDuplicates(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <Copy className="w-4 h-4" />
+                  Duplicates
+                  <span className="rounded-full bg-danger px-2 text-xs font-semibold text-danger-foreground">
+                    {duplicateGroups.length}
+                  </span>
+                </button>
+              )}
+
+              {locationMismatches.length > 0 && (
+                <button
+                  onClick={() => setShowLocationMismatches(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <MapPinOff className="w-4 h-4" />
+                  Location
+                  <span className="rounded-full bg-danger px-2 text-xs font-semibold text-danger-foreground">
+                    {locationMismatches.length}
+                  </span>
+                </button>
+              )}
+
+              {Object.keys(villageTargets).length > 0 && (
+                <button
+                  onClick={() => setShowGpsAccuracy(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <Crosshair className="w-4 h-4" />
+                  GPS
+                </button>
+              )}
+
+              {(unmatchedVillages.length > 0 || Object.keys(villageAliases).length > 0) && (
+                <button
+                  onClick={() => setShowUnmatched(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  Unmatched
+                  {unmatchedVillages.length > 0 && (
+                    <span className="rounded-full bg-danger px-2 text-xs font-semibold text-danger-foreground">
+                      {unmatchedVillages.reduce((sum, entry) => sum + entry.submissionCount, 0)}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              <button
+                onClick={() => fetchSurveyData()}
                 disabled={isLoading}
                 className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all disabled:opacity-50"
               >
                 <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
                 Refresh
               </button>
+
+              <button
+                onClick={handleFullResync}
+                disabled={isLoading}
+                title="Clear the cached submissions and download everything again"
+                className="flex items-center gap-2 px-4 py-2 bg-white/80 text-foreground border border-brand-umber/30 rounded-full shadow-[0_12px_24px_-18px_rgba(43,37,57,0.4)] hover:shadow-[0_16px_32px_-18px_rgba(43,37,57,0.45)] hover:scale-[1.01] transition-all disabled:opacity-50"
+              >
+                <DatabaseZap className="w-4 h-4" />
+                Full resync
+              </button>
             </div>
           </div>
         </header>
       )}
 
+      {/* Historical targets banner */}
+      {viewedTargetVersion !== null && !isFullscreen && (
+        <div className="flex flex-wrap items-center gap-3 border-b border-amber-200 bg-amber-50 px-4 sm:px-6 py-2 text-xs text-amber-800">
+          <History className="w-4 h-4" />
+          <span>
+            Showing progress against targets <span className="font-semibold">v{viewedTargetVersion}</span>
+            {viewedTargetSummary &&
+              ` (saved by ${viewedTargetSummary.author} on ${new Date(viewedTargetSummary.createdAt).toLocaleDateString()}: ${viewedTargetSummary.note})`}
+          </span>
+          <button onClick={() => setShowTargetHistory(true)} className="font-semibold hover:underline">
+            History
+          </button>
+          <button onClick={() => handleViewTargetVersion(null)} className="font-semibold hover:underline">
+            Back to current targets
+          </button>
+        </div>
+      )}
+
       {/* Main Content: Map + Village Cards */}
       <div className={mainLayoutClasses}>
         {/* Map Section */}
@@ -1281,7 +1701,7 @@ export default function Dashboard() {
               <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
                 <div>
                   <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60">
-                    Data Quality Snapshot
+                    Data Quality Snapshot{formSchema?.title ? ` • ${formSchema.title}` : ''}
                   </p>
                   <h3 className="text-lg font-semibold text-foreground">
                     {selectedVillageQuality.meta.village}
@@ -1294,6 +1714,23 @@ export default function Dashboard() {
                 </div>
               </div>
 
+              {selectedVillageQuality.formBreakdown.length > 1 && (
+                <div className="mb-3 flex flex-wrap gap-2">
+                  {selectedVillageQuality.formBreakdown.map((form) => (
+                    <span
+                      key={form.formId}
+                      className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-brand-oatmeal/80 border border-brand-umber/20 text-[11px] text-foreground/80"
+                    >
+                      <span className="font-semibold">{form.name}</span>
+                      <span className="text-foreground/60">
+                        {form.count}
+                        {form.role === 'target' ? ' • counts toward target' : ` • ${form.role}`}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              )}
+
               <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-4">
                 <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 shadow-inner">
                   <div className="flex items-center justify-between mb-2">
@@ -1338,7 +1775,9 @@ export default function Dashboard() {
                       : '—'}
                   </div>
                   <p className="mt-1.5 text-[11px] text-foreground/70">
-                    Average share of required form fields completed per submission.
+                    {formSchema
+                      ? 'Average share of relevant required questions answered per submission.'
+                      : 'Average share of required form fields completed per submission.'}
                     {selectedVillageQuality.averageFieldCompletion === null
                       ? ' Awaiting submissions.'
                       : ''}
@@ -1408,6 +1847,23 @@ export default function Dashboard() {
                   </p>
                 </div>
               </div>
+
+              {selectedBurndown && (
+                <div className="mt-3 grid grid-cols-1 gap-3 lg:grid-cols-2">
+                  {selectedBurndown.village && (
+                    <BurndownChart
+                      title={`${selectedVillageData?.village ?? selectedVillage?.village} progress`}
+                      series={selectedBurndown.village.series}
+                      pace={selectedBurndown.village.pace}
+                    />
+                  )}
+                  <BurndownChart
+                    title={`${selectedVillageData?.district ?? selectedVillage?.district} district progress`}
+                    series={selectedBurndown.district.series}
+                    pace={selectedBurndown.district.pace}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -1518,6 +1974,9 @@ export default function Dashboard() {
                 otherEnumeratorLocations={otherEnumeratorLocations}
                 selectedEnumerator={selectedEnumerator}
                 allEnumerators={allEnumerators}
+                gpsAccuracyThreshold={gpsAccuracyThreshold}
+                locationMismatches={locationMismatches}
+                onSelectSubmission={setSelectedRecordKey}
                 isFullscreen={isFullscreen}
                 onToggleFullscreen={() => setIsFullscreen((prev) => !prev)}
                 canToggleFullscreen={Boolean(selectedVillage)}
@@ -1586,6 +2045,14 @@ export default function Dashboard() {
                     </div>
                   )}
 
+                  {villagePace[villageIndexKey(district, village)]?.status === 'behind' && (
+                    <div
+                      className={`inline-flex mb-2 px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wide rounded-full ${PACE_LABELS.behind.tone}`}
+                    >
+                      {PACE_LABELS.behind.label}
+                    </div>
+                  )}
+
                   {/* Village name and landscape */}
                   <div className="flex items-start justify-between mb-2">
                     <div className="flex-1">
@@ -1624,7 +2091,16 @@ export default function Dashboard() {
                       <MapPin className="w-3 h-3" />
                       <span>{data.households.length} GPS points</span>
                     </div>
+                    {forecasts.villages[villageIndexKey(district, village)] && (
+                      <div className="col-span-2 flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        <span>Est. finish: {formatForecast(forecasts.villages[villageIndexKey(district, village)])}</span>
+                      </div>
+                    )}
                   </div>
+
+                  {/* Stratum quotas */}
+                  {data.quotas && <QuotaProgress quotas={data.quotas} outsideQuotas={data.outsideQuotas ?? 0} />}
                 </button>
               ))}
             </div>
@@ -1633,6 +2109,164 @@ export default function Dashboard() {
         )}
       </div>
 
+      {showFieldMapping && (
+        <FieldMappingEditor
+          mapping={fieldMapping}
+          submissions={surveyData}
+          onSave={handleSaveFieldMapping}
+          onReset={handleResetFieldMapping}
+          onClose={() => setShowFieldMapping(false)}
+        />
+      )}
+
+      {showUnmatched && (
+        <UnmatchedVillagesPanel
+          unmatched={unmatchedVillages}
+          targets={villageTargets}
+          aliases={villageAliases}
+          onConfirm={handleConfirmVillageAlias}
+          onRemoveAlias={handleRemoveVillageAlias}
+          onClose={() => setShowUnmatched(false)}
+        />
+      )}
+
+      {showProductivity && (
+        <EnumeratorProductivityPanel
+          enumerators={enumeratorList}
+          enumeratorDays={enumeratorDays}
+          onClose={() => setShowProductivity(false)}
+        />
+      )}
+
+      {showMissingness && (
+        <MissingnessPanel
+          report={missingness}
+          formSchema={formSchema}
+          targets={villageTargets}
+          enumerators={enumeratorList}
+          onClose={() => setShowMissingness(false)}
+        />
+      )}
+
+      {showFabricationRisk && (
+        <FabricationRiskPanel
+          submissions={surveyData}
+          enumerators={enumeratorList}
+          mapping={fieldMapping}
+          formSchema={formSchema}
+          excluded={excludedRecords}
+          onClose={() => setShowFabricationRisk(false)}
+        />
+      )}
+
+      {showTargetsManager && (
+        <TargetsManagerPanel
+          rows={targetRows}
+          knownDistricts={knownDistricts}
+          isCustom={hasCustomTargets}
+          defaultRows={defaultTargetRows}
+          history={
+            targetVersions
+              ? { currentVersion: targetVersions[0]?.version ?? null, onOpen: () => setShowTargetHistory(true) }
+              : null
+          }
+          isSaving={isSavingTargets}
+          onApply={handleApplyTargets}
+          onReset={handleResetTargets}
+          onClose={() => setShowTargetsManager(false)}
+        />
+      )}
+
+      {showTargetHistory && targetVersions && (
+        <TargetHistoryPanel
+          projectId={projectId}
+          versions={targetVersions}
+          viewedVersion={viewedTargetVersion}
+          onView={handleViewTargetVersion}
+          onClose={() => setShowTargetHistory(false)}
+        />
+      )}
+
+      {showQualityRules && (
+        <QualityRulesPanel
+          projectId={projectId}
+          rules={qualityRules}
+          results={ruleResults}
+          targets={villageTargets}
+          enumerators={enumeratorList}
+          thresholds={qualityThresholds}
+          onRulesChange={handleQualityRulesChange}
+          onThresholdsChange={handleQualityThresholdsChange}
+          onSelectSubmission={setSelectedRecordKey}
+          onClose={() => setShowQualityRules(false)}
+        />
+      )}
+
+      {showSpeeding && (
+        <SpeedingPanel
+          projectId={projectId}
+          flags={speedingFlags}
+          targets={villageTargets}
+          validationStatuses={validationStatuses}
+          isUpdatingValidation={isUpdatingValidation}
+          onValidationStatusChange={handleValidationStatusChange}
+          onSelectSubmission={setSelectedRecordKey}
+          onClose={() => setShowSpeeding(false)}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicatesPanel
+          projectId={projectId}
+          groups={duplicateGroups}
+          skippedVillages={similaritySkipped}
+          targets={villageTargets}
+          excluded={excludedRecords}
+          sharedExclusions={sharedExclusions}
+          onToggleExcluded={handleToggleExcluded}
+          validationStatuses={validationStatuses}
+          isUpdatingValidation={isUpdatingValidation}
+          onValidationStatusChange={handleValidationStatusChange}
+          onSelectSubmission={setSelectedRecordKey}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {showLocationMismatches && (
+        <LocationMismatchPanel
+          projectId={projectId}
+          mismatches={locationMismatches}
+          targets={villageTargets}
+          validationStatuses={validationStatuses}
+          isUpdatingValidation={isUpdatingValidation}
+          onValidationStatusChange={handleValidationStatusChange}
+          onSelectSubmission={setSelectedRecordKey}
+          onClose={() => setShowLocationMismatches(false)}
+        />
+      )}
+
+      {showGpsAccuracy && (
+        <GpsAccuracyPanel
+          targets={villageTargets}
+          threshold={gpsAccuracyThreshold}
+          onThresholdChange={handleGpsAccuracyThresholdChange}
+          onSelectSubmission={setSelectedRecordKey}
+          onClose={() => setShowGpsAccuracy(false)}
+        />
+      )}
+
+      {selectedSubmission && (
+        <SubmissionDrawer
+          projectId={projectId}
+          submission={selectedSubmission}
+          formSchema={formSchema}
+          mapping={fieldMapping}
+          isUpdatingValidation={isUpdatingValidation}
+          onValidationStatusChange={handleValidationStatusChange}
+          onClose={() => setSelectedRecordKey(null)}
+        />
+      )}
+
       {/* Error Toast */}
       {error && (
         <div className="fixed bottom-4 right-4 bg-danger text-danger-foreground p-4 rounded-lg shadow-lg max-w-md">
@@ -0,0 +1,74 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import type { BurndownPoint, PaceAssessment, PaceStatus } from '@/types';
+
+interface BurndownChartProps {
+  title: string;
+  series: BurndownPoint[];
+  pace: PaceAssessment;
+}
+
+export const PACE_LABELS: Record<PaceStatus, { label: string; tone: string }> = {
+  ahead: { label: 'Ahead of plan', tone: 'bg-emerald-100 text-emerald-700' },
+  'on-track': { label: 'On pace', tone: 'bg-brand-slate/10 text-brand-slate' },
+  behind: { label: 'Behind pace', tone: 'bg-danger/15 text-danger' },
+  'not-started': { label: 'Not started', tone: 'bg-slate-200 text-foreground/60' },
+  'no-plan': { label: 'No day target', tone: 'bg-slate-200 text-foreground/60' },
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default function BurndownChart({ title, series, pace }: BurndownChartProps) {
+  const status = PACE_LABELS[pace.status];
+
+  return (
+    <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 shadow-inner">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-semibold text-foreground/80">{title}</p>
+        <span className={`px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wide rounded-full ${status.tone}`}>
+          {status.label}
+        </span>
+      </div>
+
+      {series.length === 0 ? (
+        <p className="text-[11px] text-foreground/60">No dated submissions yet.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={200}>
+          <LineChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#DAD6CC" />
+            <XAxis dataKey="date" tickFormatter={formatDay} className="text-xs" minTickGap={16} />
+            <YAxis className="text-xs" allowDecimals={false} />
+            <Tooltip
+              labelFormatter={(label) => formatDay(String(label))}
+              contentStyle={{
+                backgroundColor: '#2B2539',
+                border: 'none',
+                borderRadius: '8px',
+                color: '#EBE9E4',
+              }}
+            />
+            <Legend />
+            <ReferenceLine y={pace.expected} stroke="#BED3CC" strokeDasharray="4 4" />
+            <Line type="stepAfter" dataKey="actual" stroke="#2B2539" strokeWidth={2} dot={false} name="Submitted" />
+            <Line
+              type="linear"
+              dataKey="ideal"
+              stroke="#7B6767"
+              strokeDasharray="6 4"
+              dot={false}
+              connectNulls
+              name="Planned"
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      <p className="mt-1.5 text-[11px] text-foreground/70">
+        {pace.actual} of {pace.expected} submitted
+        {pace.optimalDays > 0 && pace.elapsedDays > 0
+          ? ` • ${pace.planned} planned by day ${pace.elapsedDays} of ${pace.optimalDays}`
+          : ''}
+      </p>
+    </div>
+  );
+}
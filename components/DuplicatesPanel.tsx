@@ -0,0 +1,193 @@
+import { useMemo } from 'react';
+import { X, ExternalLink } from 'lucide-react';
+import type {
+  DuplicateGroup,
+  DuplicateReason,
+  SkippedSimilarityVillage,
+  SubmissionRef,
+  ValidationStatus,
+  VillageTargets,
+} from '@/types';
+import { buildSubmissionLink } from '@/lib/submissions';
+import ValidationStatusControl from '@/components/ValidationStatusControl';
+import { MAX_SIMILARITY_GROUP, NEARBY_DISTANCE_METERS, SIMILAR_ANSWER_THRESHOLD } from '@/lib/duplicates';
+
+const REASONS: Array<{ reason: DuplicateReason; label: string; hint: string }> = [
+  { reason: 'same-instance', label: 'Same instance ID', hint: 'The same form instance was received more than once' },
+  {
+    reason: 'nearby',
+    label: 'Same enumerator, same spot',
+    hint: `Two interviews by one enumerator within ${NEARBY_DISTANCE_METERS} m`,
+  },
+  {
+    reason: 'similar-answers',
+    label: 'Near-identical answers',
+    hint: `At least ${SIMILAR_ANSWER_THRESHOLD * 100}% of answers match within a village`,
+  },
+];
+
+interface DuplicatesPanelProps {
+  projectId: string;
+  groups: DuplicateGroup[];
+  // Villages whose answers weren't compared because they have too many submissions
+  skippedVillages: SkippedSimilarityVillage[];
+  targets: VillageTargets;
+  excluded: string[];
+  // Exclusions are stored on the server for everyone rather than in this browser
+  sharedExclusions: boolean;
+  onToggleExcluded: (recordKey: string) => void;
+  validationStatuses: Record<string, ValidationStatus>;
+  isUpdatingValidation: boolean;
+  onValidationStatusChange: (refs: SubmissionRef[], status: ValidationStatus) => void;
+  onSelectSubmission: (recordKey: string) => void;
+  onClose: () => void;
+}
+
+const formatScore = (group: DuplicateGroup) => {
+  if (group.score === null) return null;
+  return group.reason === 'nearby' ? `${group.score} m apart` : `${Math.round(group.score * 100)}% match`;
+};
+
+export default function DuplicatesPanel({
+  projectId,
+  groups,
+  skippedVillages,
+  targets,
+  excluded,
+  sharedExclusions,
+  onToggleExcluded,
+  validationStatuses,
+  isUpdatingValidation,
+  onValidationStatusChange,
+  onSelectSubmission,
+  onClose,
+}: DuplicatesPanelProps) {
+  const excludedSet = useMemo(() => new Set(excluded), [excluded]);
+
+  const villageName = (district: string, village: string) => {
+    const target = targets[district]?.[village];
+    return target ? target.village : village || 'Unknown village';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Possible Duplicates</h2>
+            <p className="text-xs text-foreground/60">
+              Excluded submissions stop counting toward village targets.{' '}
+              {sharedExclusions
+                ? 'Exclusions are shared with everyone viewing this project.'
+                : 'Exclusions are stored per project in this browser; rejecting a submission records the decision on the server instead.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {skippedVillages.length > 0 && (
+          <div className="mb-4 rounded-xl border border-amber-200 bg-amber-100/60 p-3 text-xs text-amber-700">
+            <p className="font-semibold mb-1">
+              Near-identical answers were not checked in {skippedVillages.length}{' '}
+              {skippedVillages.length === 1 ? 'village' : 'villages'} with more than {MAX_SIMILARITY_GROUP} submissions:
+            </p>
+            <p>
+              {skippedVillages
+                .map((skipped) => `${villageName(skipped.district, skipped.village)} (${skipped.submissionCount})`)
+                .join(', ')}
+            </p>
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No likely duplicates found.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {REASONS.map(({ reason, label, hint }) => {
+              const matching = groups.filter((group) => group.reason === reason);
+              if (matching.length === 0) return null;
+              return (
+                <div key={reason}>
+                  <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60">
+                    {label} ({matching.length})
+                  </p>
+                  <p className="text-[11px] text-foreground/60 mb-2">{hint}</p>
+                  <div className="space-y-2">
+                    {matching.map((group) => (
+                      <div key={group.key} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+                        {formatScore(group) && (
+                          <p className="text-[11px] font-semibold text-foreground/70 mb-1">{formatScore(group)}</p>
+                        )}
+                        <table className="w-full text-xs">
+                          <tbody>
+                            {group.members.map((member, index) => {
+                              const isExcluded = excludedSet.has(member.recordKey);
+                              return (
+                                <tr
+                                  key={`${member.recordKey}-${index}`}
+                                  className={`border-t border-brand-umber/10 first:border-0 ${isExcluded ? 'opacity-50' : ''}`}
+                                >
+                                  <td className="py-1.5 pr-3 font-semibold text-foreground">
+                                    {villageName(member.district, member.village)}
+                                  </td>
+                                  <td className="py-1.5 pr-3 text-foreground/80">{member.enumeratorName ?? 'Unknown'}</td>
+                                  <td className="py-1.5 pr-3 text-foreground/60">
+                                    {member.submittedAt ? new Date(member.submittedAt).toLocaleString() : '—'}
+                                  </td>
+                                  <td className="py-1.5 pr-3 text-right">
+                                    <button
+                                      onClick={() => onSelectSubmission(member.recordKey)}
+                                      className="mr-3 text-brand-slate hover:underline"
+                                    >
+                                      Details
+                                    </button>
+                                    <a
+                                      href={buildSubmissionLink(projectId, member)}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 text-brand-slate hover:underline"
+                                    >
+                                      Open
+                                      <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                  </td>
+                                  <td className="py-1.5 pr-3 text-right">
+                                    <ValidationStatusControl
+                                      status={validationStatuses[member.recordKey] ?? null}
+                                      disabled={isUpdatingValidation}
+                                      onChange={(status) => onValidationStatusChange([member], status)}
+                                    />
+                                  </td>
+                                  <td className="py-1.5 text-right">
+                                    <button
+                                      onClick={() => onToggleExcluded(member.recordKey)}
+                                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                        isExcluded
+                                          ? 'bg-white text-foreground border border-brand-umber/30'
+                                          : 'bg-danger text-danger-foreground'
+                                      }`}
+                                    >
+                                      {isExcluded ? 'Restore' : 'Exclude'}
+                                    </button>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
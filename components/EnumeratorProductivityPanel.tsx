@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react';
+import { X, ArrowUp, ArrowDown } from 'lucide-react';
+import type { EnumeratorDayStats, EnumeratorInfo, EnumeratorProductivity } from '@/types';
+import { summarizeProductivity } from '@/lib/productivity';
+
+type SortKey = Exclude<keyof EnumeratorProductivity, 'id' | 'color' | 'dailyCounts'>;
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'name', label: 'Enumerator' },
+  { key: 'submissions', label: 'Submissions' },
+  { key: 'perDay', label: 'Per day' },
+  { key: 'medianDuration', label: 'Median interview' },
+  { key: 'activeHours', label: 'Active hours' },
+  { key: 'villagesCovered', label: 'Villages' },
+  { key: 'gpsRate', label: 'GPS' },
+  { key: 'fillRate', label: 'Fill rate' },
+];
+
+// Only the most recent days fit in the inline activity strip
+const STRIP_DAYS = 14;
+
+interface EnumeratorProductivityPanelProps {
+  enumerators: EnumeratorInfo[];
+  enumeratorDays: Record<string, Record<string, EnumeratorDayStats>>;
+  onClose: () => void;
+}
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+const rateTone = (value: number | null) =>
+  value === null ? 'text-foreground/60' : value >= 90 ? 'text-emerald-600' : value >= 70 ? 'text-amber-600' : 'text-danger';
+
+export default function EnumeratorProductivityPanel({
+  enumerators,
+  enumeratorDays,
+  onClose,
+}: EnumeratorProductivityPanelProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('submissions');
+  const [sortDescending, setSortDescending] = useState(true);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const summaries = summarizeProductivity(enumerators, enumeratorDays, {
+      from: from || undefined,
+      to: to || undefined,
+    }).filter((row) => !query || row.name.toLowerCase().includes(query) || row.id.toLowerCase().includes(query));
+
+    return summaries.sort((a, b) => {
+      const left = a[sortKey];
+      const right = b[sortKey];
+      // Missing values always sink to the bottom
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const order = typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number);
+      return sortDescending ? -order : order;
+    });
+  }, [enumerators, enumeratorDays, from, to, search, sortKey, sortDescending]);
+
+  const stripDays = useMemo(() => {
+    const days = new Set<string>();
+    rows.forEach((row) => Object.keys(row.dailyCounts).forEach((day) => days.add(day)));
+    return Array.from(days).sort().slice(-STRIP_DAYS);
+  }, [rows]);
+  const stripMax = Math.max(1, ...rows.flatMap((row) => stripDays.map((day) => row.dailyCounts[day] ?? 0)));
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'name');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Enumerator Productivity</h2>
+            <p className="text-xs text-foreground/60">
+              Target-form submissions by UTC day. Durations and active hours use the form&apos;s start/end times.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-end gap-3">
+          <label className="block">
+            <span className="block text-xs font-semibold text-foreground/80 mb-1">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-1.5 bg-white border border-brand-umber/30 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-foreground/80 mb-1">To</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-1.5 bg-white border border-brand-umber/30 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+            />
+          </label>
+          <label className="block flex-1 min-w-[160px]">
+            <span className="block text-xs font-semibold text-foreground/80 mb-1">Search</span>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Name or code"
+              className="w-full px-3 py-1.5 bg-white border border-brand-umber/30 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+            />
+          </label>
+          {(from || to || search) && (
+            <button
+              onClick={() => {
+                setFrom('');
+                setTo('');
+                setSearch('');
+              }}
+              className="px-3 py-1.5 text-xs text-foreground/70 hover:text-foreground"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No enumerator submissions in this range.
+          </p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                {COLUMNS.map((column) => (
+                  <th key={column.key} className="py-2 pr-3 font-semibold">
+                    <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 hover:text-foreground">
+                      {column.label}
+                      {sortKey === column.key &&
+                        (sortDescending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 font-semibold">Last {stripDays.length} days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id} className="border-t border-brand-umber/10">
+                  <td className="py-2 pr-3">
+                    <span className="flex items-center gap-2 font-semibold text-foreground">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: row.color }} />
+                      {row.name}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 font-semibold text-foreground">{row.submissions}</td>
+                  <td className="py-2 pr-3 text-foreground/80">
+                    {row.perDay}
+                    <span className="text-foreground/50"> • {row.activeDays}d</span>
+                  </td>
+                  <td className="py-2 pr-3 text-foreground/80">{formatMinutes(row.medianDuration)}</td>
+                  <td className="py-2 pr-3 text-foreground/80">{row.activeHours}</td>
+                  <td className="py-2 pr-3 text-foreground/80">{row.villagesCovered}</td>
+                  <td className={`py-2 pr-3 font-semibold ${rateTone(row.gpsRate)}`}>{formatPercent(row.gpsRate)}</td>
+                  <td className={`py-2 pr-3 font-semibold ${rateTone(row.fillRate)}`}>{formatPercent(row.fillRate)}</td>
+                  <td className="py-2">
+                    <div className="flex h-6 items-end gap-[2px]">
+                      {stripDays.map((day) => {
+                        const count = row.dailyCounts[day] ?? 0;
+                        return (
+                          <div
+                            key={day}
+                            title={`${day}: ${count}`}
+                            className="w-1.5 rounded-sm bg-brand-slate/70"
+                            style={{ height: `${Math.max(2, (count / stripMax) * 24)}px`, opacity: count > 0 ? 1 : 0.2 }}
+                          />
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import type { EnumeratorInfo, FieldMapping, FormSchema, KoBoSubmission, RiskIndicatorKind } from '@/types';
+import { MIN_RISK_INTERVIEWS, scoreFabricationRisk } from '@/lib/fabricationRisk';
+
+const INDICATOR_LABELS: Record<RiskIndicatorKind, string> = {
+  'low-variance': 'Uniform answers',
+  'dont-know': "Excess \"don't know\"",
+  'digit-preference': 'Digit preference',
+  'time-location-cluster': 'Clustered in time and place',
+};
+
+interface FabricationRiskPanelProps {
+  submissions: KoBoSubmission[];
+  enumerators: EnumeratorInfo[];
+  mapping: FieldMapping;
+  formSchema: FormSchema | null;
+  excluded: string[];
+  onClose: () => void;
+}
+
+const scoreClasses = (score: number) => {
+  if (score >= 75) return 'bg-danger text-danger-foreground';
+  if (score >= 50) return 'bg-danger/15 text-danger';
+  if (score > 0) return 'bg-amber-100 text-amber-700';
+  return 'bg-emerald-100 text-emerald-700';
+};
+
+export default function FabricationRiskPanel({
+  submissions,
+  enumerators,
+  mapping,
+  formSchema,
+  excluded,
+  onClose,
+}: FabricationRiskPanelProps) {
+  const risks = useMemo(
+    () => scoreFabricationRisk(submissions, enumerators, { mapping, formSchema, excluded }),
+    [submissions, enumerators, mapping, formSchema, excluded]
+  );
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Fabrication Risk</h2>
+            <p className="text-xs text-foreground/60">
+              Statistical warning signs compared against the rest of the team. A high score is a reason to back-check,
+              not proof of fabrication. Enumerators need {MIN_RISK_INTERVIEWS}+ interviews to be scored.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {risks.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No enumerator submissions yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {risks.map((risk) => (
+              <div key={risk.enumeratorId} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                    <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: risk.color }} />
+                    {risk.enumeratorName}
+                    <span className="text-xs font-normal text-foreground/60">{risk.submissions} interviews</span>
+                  </p>
+                  <span className={`rounded-full px-2.5 py-0.5 text-xs font-semibold ${scoreClasses(risk.score)}`}>
+                    Risk {risk.score}
+                  </span>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {risk.indicators.map((indicator) => (
+                      <tr key={indicator.kind} className="border-t border-brand-umber/10 first:border-0">
+                        <td
+                          className={`py-1.5 pr-3 w-48 font-semibold ${
+                            indicator.fired ? 'text-danger' : 'text-foreground/50'
+                          }`}
+                        >
+                          {indicator.fired ? '● ' : '○ '}
+                          {INDICATOR_LABELS[indicator.kind]}
+                        </td>
+                        <td className={`py-1.5 ${indicator.fired ? 'text-foreground/80' : 'text-foreground/50'}`}>
+                          {indicator.detail}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
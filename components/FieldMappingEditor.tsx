@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { X, RotateCcw, Save } from 'lucide-react';
+import type { FieldMapping, KoBoSubmission } from '@/types';
+import { validateFieldMapping } from '@/lib/fieldMapping';
+
+type KeyListField = Exclude<keyof FieldMapping, 'enumeratorCodePattern'>;
+
+const KEY_LIST_FIELDS: Array<{ field: KeyListField; label: string; hint: string }> = [
+  { field: 'districtKeys', label: 'District', hint: 'e.g. grp_general/landscape' },
+  { field: 'villageKeys', label: 'Village', hint: 'e.g. grp_general/village' },
+  { field: 'enumeratorKeys', label: 'Enumerator code', hint: 'e.g. grp_general/enumerator_id' },
+  { field: 'gpsKeys', label: 'GPS', hint: 'e.g. _geolocation' },
+  { field: 'timestampKeys', label: 'Timestamps', hint: 'e.g. _submission_time' },
+  { field: 'stratumKeys', label: 'Quota stratum (optional)', hint: 'e.g. grp_household/head_sex' },
+];
+
+// Only a sample is needed to tell whether the keys line up with the form
+const SAMPLE_SIZE = 200;
+
+interface FieldMappingEditorProps {
+  mapping: FieldMapping;
+  submissions: KoBoSubmission[];
+  onSave: (mapping: FieldMapping) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const toText = (keys: string[]) => keys.join('\n');
+const toKeys = (text: string) =>
+  text
+    .split(/[\n,]/)
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+export default function FieldMappingEditor({
+  mapping,
+  submissions,
+  onSave,
+  onReset,
+  onClose,
+}: FieldMappingEditorProps) {
+  const [draft, setDraft] = useState<Record<KeyListField, string>>(() => ({
+    districtKeys: toText(mapping.districtKeys),
+    villageKeys: toText(mapping.villageKeys),
+    enumeratorKeys: toText(mapping.enumeratorKeys),
+    gpsKeys: toText(mapping.gpsKeys),
+    timestampKeys: toText(mapping.timestampKeys),
+    stratumKeys: toText(mapping.stratumKeys),
+  }));
+  const [pattern, setPattern] = useState(mapping.enumeratorCodePattern);
+
+  const draftMapping = useMemo<FieldMapping>(
+    () => ({
+      districtKeys: toKeys(draft.districtKeys),
+      villageKeys: toKeys(draft.villageKeys),
+      enumeratorKeys: toKeys(draft.enumeratorKeys),
+      gpsKeys: toKeys(draft.gpsKeys),
+      timestampKeys: toKeys(draft.timestampKeys),
+      stratumKeys: toKeys(draft.stratumKeys),
+      enumeratorCodePattern: pattern.trim(),
+    }),
+    [draft, pattern]
+  );
+
+  const checks = useMemo(
+    () => validateFieldMapping(draftMapping, submissions.slice(-SAMPLE_SIZE)),
+    [draftMapping, submissions]
+  );
+  const hasErrors = checks.some((check) => check.error);
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Field Mapping</h2>
+            <p className="text-xs text-foreground/60">
+              Submission keys checked in order; the first non-empty value wins.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {KEY_LIST_FIELDS.map(({ field, label, hint }) => (
+            <label key={field} className="block">
+              <span className="block text-xs font-semibold text-foreground/80 mb-1">{label}</span>
+              <textarea
+                value={draft[field]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+                rows={4}
+                placeholder={hint}
+                className="w-full px-3 py-2 bg-white border border-brand-umber/30 rounded-lg text-xs font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+              />
+            </label>
+          ))}
+
+          <label className="block">
+            <span className="block text-xs font-semibold text-foreground/80 mb-1">Enumerator code pattern</span>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="^E\d+$"
+              className="w-full px-3 py-2 bg-white border border-brand-umber/30 rounded-lg text-xs font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+            />
+            <span className="block mt-1 text-[10px] text-foreground/60">Regular expression, case insensitive</span>
+          </label>
+        </div>
+
+        <div className="mt-5 rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+          <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+            Validation against {Math.min(submissions.length, SAMPLE_SIZE)} recent submissions
+          </p>
+          {submissions.length === 0 ? (
+            <p className="text-xs text-foreground/60">Load submissions to validate the mapping.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody>
+                {checks.map((check) => {
+                  const ratio = check.total > 0 ? check.matched / check.total : 0;
+                  const tone = check.error
+                    ? 'text-danger'
+                    : ratio >= 0.9
+                      ? 'text-emerald-600'
+                      : ratio > 0
+                        ? 'text-amber-600'
+                        : 'text-danger';
+                  return (
+                    <tr key={check.field} className="border-t border-brand-umber/10 first:border-0">
+                      <td className="py-1.5 pr-3 font-semibold text-foreground/80">{check.label}</td>
+                      <td className={`py-1.5 pr-3 font-semibold ${tone}`}>
+                        {check.matched}/{check.total}
+                      </td>
+                      <td className="py-1.5 text-foreground/60 font-mono">
+                        {check.error ?? (check.matchedKeys.length > 0 ? check.matchedKeys.join(', ') : 'No matches')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="mt-5 flex items-center justify-end gap-3">
+          <button
+            onClick={onReset}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-foreground/70 hover:text-foreground"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to defaults
+          </button>
+          <button
+            onClick={() => onSave(draftMapping)}
+            disabled={hasErrors}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full text-sm font-medium disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            Save mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import type { VillageTargets } from '@/types';
+import { listLowAccuracyFixes, summarizeGpsAccuracy } from '@/lib/gpsAccuracy';
+
+type GroupBy = 'village' | 'enumerator';
+
+// Keep the fix list readable on large projects; the worst ones come first
+const MAX_LISTED_FIXES = 200;
+
+interface GpsAccuracyPanelProps {
+  targets: VillageTargets;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onSelectSubmission: (recordKey: string) => void;
+  onClose: () => void;
+}
+
+export default function GpsAccuracyPanel({
+  targets,
+  threshold,
+  onThresholdChange,
+  onSelectSubmission,
+  onClose,
+}: GpsAccuracyPanelProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('enumerator');
+  const [draftThreshold, setDraftThreshold] = useState(String(threshold));
+
+  const rows = useMemo(() => summarizeGpsAccuracy(targets, threshold, groupBy), [targets, threshold, groupBy]);
+  const lowFixes = useMemo(() => listLowAccuracyFixes(targets, threshold), [targets, threshold]);
+  const totals = rows.reduce(
+    (sum, row) => ({
+      fixes: sum.fixes + row.fixes,
+      withAccuracy: sum.withAccuracy + row.withAccuracy,
+      lowAccuracy: sum.lowAccuracy + row.lowAccuracy,
+    }),
+    { fixes: 0, withAccuracy: 0, lowAccuracy: 0 }
+  );
+
+  const parsedThreshold = Number(draftThreshold);
+  const isValidThreshold = Number.isFinite(parsedThreshold) && parsedThreshold > 0;
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">GPS Accuracy</h2>
+            <p className="text-xs text-foreground/60">
+              Fixes less accurate than the threshold are drawn hollow on the map and left out of the spatial gap analysis.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-end gap-3">
+          <label className="block">
+            <span className="block text-xs font-semibold text-foreground/80 mb-1">Accuracy threshold (m)</span>
+            <input
+              type="number"
+              min={1}
+              value={draftThreshold}
+              onChange={(e) => setDraftThreshold(e.target.value)}
+              className="w-28 px-3 py-1.5 bg-white border border-brand-umber/30 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+            />
+          </label>
+          <button
+            onClick={() => onThresholdChange(parsedThreshold)}
+            disabled={!isValidThreshold || parsedThreshold === threshold}
+            className="px-3 py-1.5 bg-primary text-primary-foreground rounded-full text-xs font-medium disabled:opacity-50"
+          >
+            Apply
+          </button>
+          <div className="ml-auto flex items-center gap-2">
+            {(['enumerator', 'village'] as GroupBy[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setGroupBy(option)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                  groupBy === option
+                    ? 'bg-brand-slate text-white'
+                    : 'bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20'
+                }`}
+              >
+                By {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="mb-3 text-xs text-foreground/70">
+          {totals.lowAccuracy} of {totals.withAccuracy} fixes with an accuracy reading are worse than ±{threshold} m
+          {totals.fixes > totals.withAccuracy && ` • ${totals.fixes - totals.withAccuracy} fixes carry no accuracy`}
+        </p>
+
+        {rows.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No geo-tagged submissions yet.
+          </p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                <th className="py-2 pr-3 font-semibold">{groupBy === 'village' ? 'Village' : 'Enumerator'}</th>
+                <th className="py-2 pr-3 font-semibold">Fixes</th>
+                <th className="py-2 pr-3 font-semibold">Low accuracy</th>
+                <th className="py-2 pr-3 font-semibold">Median accuracy</th>
+                <th className="py-2 font-semibold">No reading</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-t border-brand-umber/10">
+                  <td className="py-1.5 pr-3 font-semibold text-foreground">{row.label}</td>
+                  <td className="py-1.5 pr-3 text-foreground/80">{row.fixes}</td>
+                  <td className={`py-1.5 pr-3 font-semibold ${row.lowAccuracy > 0 ? 'text-danger' : 'text-emerald-600'}`}>
+                    {row.lowAccuracy}
+                    {row.withAccuracy > 0 && (
+                      <span className="font-normal text-foreground/60">
+                        {' '}
+                        ({Math.round((row.lowAccuracy / row.withAccuracy) * 100)}%)
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-foreground/80">
+                    {row.medianAccuracy !== null ? `±${Math.round(row.medianAccuracy)} m` : '—'}
+                  </td>
+                  <td className="py-1.5 text-foreground/60">{row.fixes - row.withAccuracy}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {lowFixes.length > 0 && (
+          <div className="mt-5">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+              Low-accuracy fixes
+              {lowFixes.length > MAX_LISTED_FIXES && ` • worst ${MAX_LISTED_FIXES} of ${lowFixes.length}`}
+            </p>
+            <table className="w-full text-xs">
+              <tbody>
+                {lowFixes.slice(0, MAX_LISTED_FIXES).map((fix) => (
+                  <tr key={fix.recordKey} className="border-t border-brand-umber/10 first:border-0">
+                    <td className="py-1.5 pr-3 font-semibold text-danger">±{Math.round(fix.accuracy)} m</td>
+                    <td className="py-1.5 pr-3 text-foreground/80">{fix.village}</td>
+                    <td className="py-1.5 pr-3 text-foreground/70">{fix.enumeratorName ?? 'Unknown'}</td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => onSelectSubmission(fix.recordKey)}
+                        className="text-brand-slate hover:underline"
+                      >
+                        Details
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
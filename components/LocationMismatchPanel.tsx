@@ -0,0 +1,142 @@
+import { useMemo } from 'react';
+import { X, ExternalLink } from 'lucide-react';
+import type { LocationMismatch, SubmissionRef, ValidationStatus, VillageAreaSource, VillageTargets } from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { buildSubmissionLink } from '@/lib/submissions';
+import ValidationStatusControl from '@/components/ValidationStatusControl';
+import { formatDistance } from '@/lib/geo';
+import { DEFAULT_VILLAGE_RADIUS_METERS } from '@/lib/locationValidation';
+
+const AREA_SOURCE_LABELS: Record<VillageAreaSource, string> = {
+  boundary: 'outside boundary',
+  radius: 'outside village radius',
+  cluster: 'away from the village cluster',
+};
+
+interface LocationMismatchPanelProps {
+  projectId: string;
+  mismatches: LocationMismatch[];
+  targets: VillageTargets;
+  validationStatuses: Record<string, ValidationStatus>;
+  isUpdatingValidation: boolean;
+  onValidationStatusChange: (refs: SubmissionRef[], status: ValidationStatus) => void;
+  onSelectSubmission: (recordKey: string) => void;
+  onClose: () => void;
+}
+
+export default function LocationMismatchPanel({
+  projectId,
+  mismatches,
+  targets,
+  validationStatuses,
+  isUpdatingValidation,
+  onValidationStatusChange,
+  onSelectSubmission,
+  onClose,
+}: LocationMismatchPanelProps) {
+  const groups = useMemo(() => {
+    const grouped = new Map<string, { label: string; mismatches: LocationMismatch[] }>();
+    mismatches.forEach((mismatch) => {
+      const key = villageIndexKey(mismatch.district, mismatch.village);
+      const target = targets[mismatch.district]?.[mismatch.village];
+      const group = grouped.get(key) ?? {
+        label: target ? `${target.village} (${target.district})` : mismatch.village,
+        mismatches: [],
+      };
+      group.mismatches.push(mismatch);
+      grouped.set(key, group);
+    });
+    return Array.from(grouped.entries()).sort((a, b) => b[1].mismatches.length - a[1].mismatches.length);
+  }, [mismatches, targets]);
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Location Mismatches</h2>
+            <p className="text-xs text-foreground/60">
+              Households whose GPS fix lies outside their village&apos;s boundary or radius. Villages without one are
+              checked against a {formatDistance(DEFAULT_VILLAGE_RADIUS_METERS)} radius around their own fixes.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {mismatches.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            Every geo-tagged household lies within its village.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {groups.map(([key, group]) => (
+              <div key={key} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-semibold text-foreground">
+                    {group.label}
+                    <span className="ml-2 text-xs font-normal text-foreground/60">
+                      {group.mismatches.length} mismatched
+                    </span>
+                  </p>
+                  {group.mismatches.length > 1 && (
+                    <ValidationStatusControl
+                      status={null}
+                      scope={`all ${group.mismatches.length}`}
+                      disabled={isUpdatingValidation}
+                      onChange={(status) => onValidationStatusChange(group.mismatches, status)}
+                    />
+                  )}
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {group.mismatches.map((mismatch) => (
+                      <tr key={mismatch.recordKey} className="border-t border-brand-umber/10 first:border-0">
+                        <td className="py-1.5 pr-3 font-semibold text-danger">
+                          {formatDistance(mismatch.distanceMeters)}
+                        </td>
+                        <td className="py-1.5 pr-3 text-foreground/80">{mismatch.enumeratorName ?? 'Unknown'}</td>
+                        <td className="py-1.5 pr-3 text-foreground/60">{AREA_SOURCE_LABELS[mismatch.areaSource]}</td>
+                        <td className="py-1.5 pr-3 text-foreground/60">
+                          {mismatch.lat.toFixed(5)}, {mismatch.lon.toFixed(5)}
+                        </td>
+                        <td className="py-1.5 pr-3 text-foreground/60">
+                          {mismatch.submittedAt ? new Date(mismatch.submittedAt).toLocaleDateString() : '—'}
+                        </td>
+                        <td className="py-1.5 pr-3 text-right">
+                          <button
+                            onClick={() => onSelectSubmission(mismatch.recordKey)}
+                            className="mr-3 text-brand-slate hover:underline"
+                          >
+                            Details
+                          </button>
+                          <a
+                            href={buildSubmissionLink(projectId, mismatch)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-brand-slate hover:underline"
+                          >
+                            Open
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </td>
+                        <td className="py-1.5 text-right">
+                          <ValidationStatusControl
+                            status={validationStatuses[mismatch.recordKey] ?? null}
+                            disabled={isUpdatingValidation}
+                            onChange={(status) => onValidationStatusChange([mismatch], status)}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,28 +2,14 @@
 
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { MapContainer, TileLayer, CircleMarker, Popup, Polygon, useMap, Pane, Marker } from 'react-leaflet';
-import type { BuildingCentroid, VillageTargets, EnumeratorInfo } from '@/types';
+import type { BuildingCentroid, VillageTargets, EnumeratorInfo, LocationMismatch } from '@/types';
 import L, { type PathOptions } from 'leaflet';
 import { getEnumeratorColor } from '@/lib/enumeratorColors';
+import { formatDistance, getDistance } from '@/lib/geo';
+import { DEFAULT_GPS_ACCURACY_THRESHOLD, getGpsAccuracyLevel, type GpsAccuracyLevel } from '@/lib/gpsAccuracy';
 import type { EnumeratorLocation } from '@/lib/supabase';
 import { Maximize2, Minimize2 } from 'lucide-react';
 
-// Helper function to calculate distance between two GPS points (in meters)
-function getDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
-
 const median = (sortedValues: number[]): number => {
   if (sortedValues.length === 0) return 0;
   const mid = Math.floor(sortedValues.length / 2);
@@ -334,6 +320,12 @@ interface MapProps {
   isFullscreen?: boolean;
   onToggleFullscreen?: () => void;
   canToggleFullscreen?: boolean;
+  // Fixes less accurate than this (meters) are drawn hollow and left out of gap analysis
+  gpsAccuracyThreshold?: number;
+  // Households outside their village's area stay visible (and out of gap analysis) instead of being trimmed as outliers
+  locationMismatches?: LocationMismatch[];
+  // Opens the submission drawer for a household marker
+  onSelectSubmission?: (recordKey: string) => void;
 }
 
 function MapUpdater({ villageTargets, selectedVillage, selectedEnumerator, isFullscreen }: { villageTargets: VillageTargets, selectedVillage?: {district: string, village: string} | null, selectedEnumerator?: string | null, isFullscreen: boolean }) {
@@ -458,6 +450,9 @@ export default function Map({
   isFullscreen = false,
   onToggleFullscreen,
   canToggleFullscreen = false,
+  gpsAccuracyThreshold = DEFAULT_GPS_ACCURACY_THRESHOLD,
+  locationMismatches = [],
+  onSelectSubmission,
 }: MapProps) {
   const fullscreenButtonStyle = isFullscreen
     ? 'bg-brand-slate text-white hover:bg-brand-slate/90 border-brand-slate/60'
@@ -482,14 +477,27 @@ export default function Map({
 
   const selectedVillageKey = selectedVillage ? `${selectedVillage.district}-${selectedVillage.village}` : null;
 
+  const mismatchByRecord = useMemo(
+    () => new globalThis.Map(locationMismatches.map((mismatch) => [mismatch.recordKey, mismatch])),
+    [locationMismatches]
+  );
+
   const selectedHouseholds = useMemo<LatLngPoint[]>(() => {
     if (!selectedVillageData || selectedVillageData.households.length === 0) return [];
 
-    const filtered = removeOutliers(selectedVillageData.households);
-    const householdsToUse = filtered.length > 0 ? filtered : selectedVillageData.households;
+    // Imprecise or misplaced fixes can land in the wrong hex and hide a real gap
+    const accurate = selectedVillageData.households.filter(
+      (household) =>
+        getGpsAccuracyLevel(household, gpsAccuracyThreshold) !== 'low' &&
+        !(household.recordKey && mismatchByRecord.has(household.recordKey))
+    );
+    if (accurate.length === 0) return [];
+
+    const filtered = removeOutliers(accurate);
+    const householdsToUse = filtered.length > 0 ? filtered : accurate;
 
     return householdsToUse.map(household => ({ lat: household.lat, lon: household.lon }));
-  }, [selectedVillageData]);
+  }, [selectedVillageData, gpsAccuracyThreshold, mismatchByRecord]);
 
   useEffect(() => {
     if (!selectedVillage || !selectedVillageKey) {
@@ -590,6 +598,10 @@ export default function Map({
     enumeratorName?: string;
     enumeratorColor?: string;
     isSelectedVillage?: boolean;
+    accuracy: number | null;
+    accuracyLevel: GpsAccuracyLevel;
+    mismatch?: LocationMismatch;
+    recordKey: string | null;
   }> = [];
 
   const restrictToSelectedVillage = Boolean(selectedVillage);
@@ -615,7 +627,12 @@ export default function Map({
           return villageData.households;
         }
         const filtered = removeOutliers(villageData.households);
-        return filtered.length > 0 ? filtered : villageData.households;
+        if (filtered.length === 0) return villageData.households;
+        // Keep flagged mismatches on the map so they can be reviewed
+        const kept = new Set(filtered);
+        return villageData.households.filter(
+          (household) => kept.has(household) || (household.recordKey && mismatchByRecord.has(household.recordKey))
+        );
       })();
 
       householdsForVillage.forEach((household) => {
@@ -648,6 +665,10 @@ export default function Map({
           enumeratorName: household.enumeratorName,
           enumeratorColor,
           isSelectedVillage: isSelectedVillage || false,
+          accuracy: household.accuracy,
+          accuracyLevel: getGpsAccuracyLevel(household, gpsAccuracyThreshold),
+          mismatch: household.recordKey ? mismatchByRecord.get(household.recordKey) : undefined,
+          recordKey: household.recordKey,
         });
       });
     });
@@ -774,6 +795,8 @@ export default function Map({
           const markerColor = household.isSelectedVillage && household.enumeratorColor
             ? household.enumeratorColor
             : getMarkerColor(household.percentage);
+          const isLowAccuracy = household.accuracyLevel === 'low';
+          const isMismatch = Boolean(household.mismatch);
 
           return (
             <CircleMarker
@@ -782,10 +805,18 @@ export default function Map({
               radius={8}
               pathOptions={{
                 fillColor: markerColor,
-                color: "#fff",
-                weight: 2,
+                // Low-accuracy fixes are drawn hollow with a dashed ring in the marker color
+                // Location mismatches get a heavy slate ring
+                color: isMismatch ? '#2B2539' : isLowAccuracy ? markerColor : "#fff",
+                weight: isMismatch ? 3.5 : 2,
                 opacity: 1,
-                fillOpacity: 0.8,
+                fillOpacity: isLowAccuracy ? 0.15 : 0.8,
+                dashArray: isLowAccuracy ? '3,3' : undefined,
+              }}
+              eventHandlers={{
+                click: () => {
+                  if (household.recordKey) onSelectSubmission?.(household.recordKey);
+                },
               }}
             >
               <Popup>
@@ -805,6 +836,16 @@ export default function Map({
                       Enumerator: {household.enumeratorName}
                     </div>
                   )}
+                  <div className={`mt-1 text-xs ${isLowAccuracy ? 'text-danger font-semibold' : 'text-foreground/60'}`}>
+                    {household.accuracy !== null
+                      ? `GPS accuracy ±${Math.round(household.accuracy)} m${isLowAccuracy ? ' (low)' : ''}`
+                      : 'GPS accuracy not recorded'}
+                  </div>
+                  {household.mismatch && (
+                    <div className="mt-1 text-xs text-danger font-semibold">
+                      Location mismatch: {formatDistance(household.mismatch.distanceMeters)} outside the village area
+                    </div>
+                  )}
                 </div>
               </Popup>
             </CircleMarker>
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import type { EnumeratorInfo, FormSchema, MissingnessCell, MissingnessReport, VillageTargets } from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { getQuestionLabel } from '@/lib/formSchema';
+import { totalMissingness } from '@/lib/missingness';
+
+type GroupBy = 'village' | 'enumerator';
+
+interface MissingnessPanelProps {
+  report: MissingnessReport;
+  formSchema: FormSchema | null;
+  targets: VillageTargets;
+  enumerators: EnumeratorInfo[];
+  onClose: () => void;
+}
+
+const missingShare = (cell: MissingnessCell | undefined) =>
+  cell && cell.applicable > 0 ? cell.missing / cell.applicable : null;
+
+function HeatCell({ cell }: { cell: MissingnessCell | undefined }) {
+  const share = missingShare(cell);
+  if (share === null || !cell) {
+    return <td className="px-2 py-1 text-center text-foreground/30">—</td>;
+  }
+
+  return (
+    <td
+      title={`${cell.missing} of ${cell.applicable} missing`}
+      className={`px-2 py-1 text-center font-medium ${share > 0.5 ? 'text-white' : 'text-foreground/80'}`}
+      style={{ backgroundColor: share > 0 ? `rgba(239, 68, 68, ${0.1 + share * 0.8})` : 'rgba(16, 185, 129, 0.12)' }}
+    >
+      {Math.round(share * 100)}%
+    </td>
+  );
+}
+
+export default function MissingnessPanel({ report, formSchema, targets, enumerators, onClose }: MissingnessPanelProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('enumerator');
+  const [onlyGaps, setOnlyGaps] = useState(true);
+
+  const groups = groupBy === 'village' ? report.byVillage : report.byEnumerator;
+
+  const columns = useMemo(() => {
+    const labels = new Map<string, string>();
+    if (groupBy === 'village') {
+      Object.entries(targets).forEach(([district, villages]) => {
+        Object.entries(villages).forEach(([village, target]) => {
+          labels.set(villageIndexKey(district, village), target.village);
+        });
+      });
+    } else {
+      enumerators.forEach((enumerator) => labels.set(enumerator.id, enumerator.name));
+    }
+
+    return Object.keys(groups)
+      .map((key) => ({ key, label: labels.get(key) ?? key }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [groups, groupBy, targets, enumerators]);
+
+  const rows = useMemo(
+    () =>
+      report.questions
+        .map((path) => ({ path, label: getQuestionLabel(formSchema, path), total: totalMissingness(groups, path) }))
+        .filter((row) => row.total.applicable > 0 && (!onlyGaps || row.total.missing > 0))
+        .sort((a, b) => (missingShare(b.total) ?? 0) - (missingShare(a.total) ?? 0)),
+    [report.questions, formSchema, groups, onlyGaps]
+  );
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-6xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Question Missingness</h2>
+            <p className="text-xs text-foreground/60">
+              {formSchema
+                ? 'Share of submissions that left each question empty, counting only those where skip logic showed it.'
+                : 'Share of submissions missing each field that other submissions answered. Load the form schema to account for skip logic.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          {(['enumerator', 'village'] as GroupBy[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGroupBy(option)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                groupBy === option
+                  ? 'bg-brand-slate text-white'
+                  : 'bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20'
+              }`}
+            >
+              By {option}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-xs text-foreground/80">
+            <input type="checkbox" checked={onlyGaps} onChange={(e) => setOnlyGaps(e.target.checked)} />
+            Only questions with gaps
+          </label>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            {report.questions.length === 0 ? 'No submissions yet.' : 'Every question is answered wherever it was shown.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                  <th className="sticky left-0 bg-white py-2 pr-3 text-left font-semibold">Question</th>
+                  <th className="px-2 py-2 font-semibold">All</th>
+                  {columns.map((column) => (
+                    <th key={column.key} className="px-2 py-2 font-semibold normal-case tracking-normal whitespace-nowrap">
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.path}>
+                    <td className="sticky left-0 bg-white py-1 pr-3 max-w-xs truncate text-foreground" title={row.path}>
+                      {row.label}
+                    </td>
+                    <HeatCell cell={row.total} />
+                    {columns.map((column) => (
+                      <HeatCell key={column.key} cell={groups[column.key]?.[row.path]} />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import { useMemo, useState } from 'react';
+import { X, Save, Trash2, Pencil, Download, ExternalLink } from 'lucide-react';
+import Papa from 'papaparse';
+import type {
+  EnumeratorInfo,
+  QualityRule,
+  QualityRuleResults,
+  QualityThresholds,
+  VillageTargets,
+} from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { buildSubmissionLink } from '@/lib/submissions';
+import { createRuleId, validateRuleExpression } from '@/lib/qualityRules';
+
+type GroupBy = 'village' | 'enumerator';
+
+// Rows listed under the summary; the CSV export carries every violation
+const MAX_LISTED_VIOLATIONS = 200;
+
+interface QualityRulesPanelProps {
+  projectId: string;
+  rules: QualityRule[];
+  results: QualityRuleResults;
+  targets: VillageTargets;
+  enumerators: EnumeratorInfo[];
+  thresholds: QualityThresholds;
+  onRulesChange: (rules: QualityRule[]) => void;
+  onThresholdsChange: (thresholds: QualityThresholds) => void;
+  onSelectSubmission: (recordKey: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT = { id: null as string | null, name: '', when: '', check: '' };
+
+const THRESHOLD_FIELDS: Array<{ field: keyof QualityThresholds; label: string }> = [
+  { field: 'onTrackPercent', label: '"On track" from (%)' },
+  { field: 'monitorPercent', label: '"Monitor" from (%)' },
+  { field: 'upToDateDays', label: '"Up to date" within (days)' },
+  { field: 'checkInDays', label: '"Check-in soon" within (days)' },
+];
+
+const inputClasses =
+  'w-full px-3 py-2 bg-white border border-brand-umber/30 rounded-lg text-xs font-mono text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary';
+
+export default function QualityRulesPanel({
+  projectId,
+  rules,
+  results,
+  targets,
+  enumerators,
+  thresholds,
+  onRulesChange,
+  onThresholdsChange,
+  onSelectSubmission,
+  onClose,
+}: QualityRulesPanelProps) {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [groupBy, setGroupBy] = useState<GroupBy>('village');
+  const [thresholdDraft, setThresholdDraft] = useState(thresholds);
+
+  const checkError = draft.check ? validateRuleExpression(draft.check) : null;
+  const whenError = draft.when.trim() ? validateRuleExpression(draft.when) : null;
+  const canSaveRule = draft.name.trim() !== '' && draft.check.trim() !== '' && !checkError && !whenError;
+
+  const ruleNames = useMemo(() => new Map(rules.map((rule) => [rule.id, rule.name])), [rules]);
+
+  const groupLabel = useMemo(() => {
+    const enumeratorNames = new Map(enumerators.map((enumerator) => [enumerator.id, enumerator.name]));
+    return (district: string, village: string, enumeratorId: string | null, enumeratorName: string | null) => {
+      if (groupBy === 'enumerator') {
+        return {
+          key: enumeratorId ?? '',
+          label: enumeratorName ?? enumeratorNames.get(enumeratorId ?? '') ?? 'Unknown enumerator',
+        };
+      }
+      const target = targets[district]?.[village];
+      return {
+        key: villageIndexKey(district, village),
+        label: target ? `${target.village} (${target.district})` : `${village || 'Unknown village'} (unmatched)`,
+      };
+    };
+  }, [groupBy, targets, enumerators]);
+
+  // Group → rule id → violation count
+  const summary = useMemo(() => {
+    const groups = new Map<string, { label: string; total: number; byRule: Record<string, number> }>();
+    results.violations.forEach((violation) => {
+      const { key, label } = groupLabel(
+        violation.district,
+        violation.village,
+        violation.enumeratorId,
+        violation.enumeratorName
+      );
+      const group = groups.get(key) ?? { label, total: 0, byRule: {} };
+      group.total += 1;
+      group.byRule[violation.ruleId] = (group.byRule[violation.ruleId] ?? 0) + 1;
+      groups.set(key, group);
+    });
+    return Array.from(groups.entries()).sort((a, b) => b[1].total - a[1].total);
+  }, [results.violations, groupLabel]);
+
+  const handleSaveRule = () => {
+    const rule: QualityRule = {
+      id: draft.id ?? createRuleId(),
+      name: draft.name.trim(),
+      check: draft.check.trim(),
+      when: draft.when.trim() || null,
+    };
+    onRulesChange(draft.id ? rules.map((existing) => (existing.id === draft.id ? rule : existing)) : [...rules, rule]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleExport = () => {
+    const csv = Papa.unparse(
+      results.violations.map((violation) => ({
+        rule: ruleNames.get(violation.ruleId) ?? violation.ruleId,
+        district: violation.district,
+        village: violation.village,
+        enumerator_id: violation.enumeratorId ?? '',
+        enumerator_name: violation.enumeratorName ?? '',
+        submitted_at: violation.submittedAt ?? '',
+        record: violation.recordKey,
+        link: `${window.location.origin}${buildSubmissionLink(projectId, violation)}`,
+      }))
+    );
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quality-violations-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Quality Rules</h2>
+            <p className="text-xs text-foreground/60">
+              Checks written like XLSForm constraints, e.g. <code>{'${hh_size} >= 1 and ${hh_size} <= 30'}</code>.
+              Empty answers fail numeric comparisons, so scope conditional checks with &quot;Applies when&quot;.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 mb-4">
+          <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+            {draft.id ? 'Edit rule' : 'New rule'}
+          </p>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <label className="block">
+              <span className="block text-xs font-semibold text-foreground/80 mb-1">Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Livestock count given"
+                className={inputClasses}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-foreground/80 mb-1">Applies when (optional)</span>
+              <input
+                type="text"
+                value={draft.when}
+                onChange={(e) => setDraft((prev) => ({ ...prev, when: e.target.value }))}
+                placeholder="${owns_livestock} = 'yes'"
+                className={inputClasses}
+              />
+              {whenError && <span className="block mt-1 text-[10px] text-danger">{whenError}</span>}
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-foreground/80 mb-1">Must hold</span>
+              <input
+                type="text"
+                value={draft.check}
+                onChange={(e) => setDraft((prev) => ({ ...prev, check: e.target.value }))}
+                placeholder="${livestock_count} > 0"
+                className={inputClasses}
+              />
+              {checkError && <span className="block mt-1 text-[10px] text-danger">{checkError}</span>}
+            </label>
+          </div>
+          <div className="mt-3 flex items-center justify-end gap-3">
+            {draft.id && (
+              <button
+                onClick={() => setDraft(EMPTY_DRAFT)}
+                className="px-4 py-2 text-sm text-foreground/70 hover:text-foreground"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSaveRule}
+              disabled={!canSaveRule}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full text-sm font-medium disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {draft.id ? 'Update rule' : 'Add rule'}
+            </button>
+          </div>
+        </div>
+
+        {rules.length > 0 && (
+          <table className="w-full text-xs mb-5">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                <th className="py-2 pr-3 font-semibold">Rule</th>
+                <th className="py-2 pr-3 font-semibold">Expression</th>
+                <th className="py-2 pr-3 font-semibold">Checked</th>
+                <th className="py-2 pr-3 font-semibold">Violations</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const violations = results.violations.filter((violation) => violation.ruleId === rule.id).length;
+                return (
+                  <tr key={rule.id} className="border-t border-brand-umber/10">
+                    <td className="py-1.5 pr-3 font-semibold text-foreground">{rule.name}</td>
+                    <td className="py-1.5 pr-3 font-mono text-foreground/70">
+                      {rule.when && <span className="text-foreground/50">when {rule.when} → </span>}
+                      {rule.check}
+                      {results.errors[rule.id] && (
+                        <span className="block font-sans text-danger">{results.errors[rule.id]}</span>
+                      )}
+                      {results.evaluationErrors[rule.id] && (
+                        <span className="block font-sans text-warning">
+                          Couldn&apos;t evaluate {results.evaluationErrors[rule.id].count} submission
+                          {results.evaluationErrors[rule.id].count === 1 ? '' : 's'}:{' '}
+                          {results.evaluationErrors[rule.id].message}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5 pr-3 text-foreground/80">{results.checked[rule.id] ?? 0}</td>
+                    <td className={`py-1.5 pr-3 font-semibold ${violations > 0 ? 'text-danger' : 'text-emerald-600'}`}>
+                      {violations}
+                    </td>
+                    <td className="py-1.5 text-right whitespace-nowrap">
+                      <button
+                        onClick={() =>
+                          setDraft({ id: rule.id, name: rule.name, when: rule.when ?? '', check: rule.check })
+                        }
+                        className="inline-flex items-center text-foreground/60 hover:text-foreground mr-2"
+                        title="Edit rule"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => onRulesChange(rules.filter((existing) => existing.id !== rule.id))}
+                        className="inline-flex items-center text-foreground/60 hover:text-danger"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {results.violations.length > 0 && (
+          <div className="mb-5">
+            <div className="mb-3 flex items-center gap-2">
+              {(['village', 'enumerator'] as GroupBy[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setGroupBy(option)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                    groupBy === option
+                      ? 'bg-brand-slate text-white'
+                      : 'bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20'
+                  }`}
+                >
+                  By {option}
+                </button>
+              ))}
+              <button
+                onClick={handleExport}
+                className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20 hover:text-foreground"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Export CSV
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                    <th className="py-2 pr-3 font-semibold">{groupBy === 'village' ? 'Village' : 'Enumerator'}</th>
+                    <th className="py-2 pr-3 font-semibold">Total</th>
+                    {rules.map((rule) => (
+                      <th key={rule.id} className="py-2 pr-3 font-semibold normal-case tracking-normal">
+                        {rule.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.map(([key, group]) => (
+                    <tr key={key} className="border-t border-brand-umber/10">
+                      <td className="py-1.5 pr-3 font-semibold text-foreground">{group.label}</td>
+                      <td className="py-1.5 pr-3 font-semibold text-danger">{group.total}</td>
+                      {rules.map((rule) => (
+                        <td key={rule.id} className="py-1.5 pr-3 text-foreground/80">
+                          {group.byRule[rule.id] ?? '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="mt-4 mb-2 text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60">
+              Violations
+              {results.violations.length > MAX_LISTED_VIOLATIONS &&
+                ` • first ${MAX_LISTED_VIOLATIONS} of ${results.violations.length}, export for the rest`}
+            </p>
+            <table className="w-full text-xs">
+              <tbody>
+                {results.violations.slice(0, MAX_LISTED_VIOLATIONS).map((violation) => (
+                  <tr
+                    key={`${violation.ruleId}:${violation.recordKey}`}
+                    className="border-t border-brand-umber/10 first:border-0"
+                  >
+                    <td className="py-1.5 pr-3 font-semibold text-danger">
+                      {ruleNames.get(violation.ruleId) ?? violation.ruleId}
+                    </td>
+                    <td className="py-1.5 pr-3 text-foreground/80">
+                      {targets[violation.district]?.[violation.village]?.village ?? (violation.village || 'Unknown village')}
+                    </td>
+                    <td className="py-1.5 pr-3 text-foreground/70">{violation.enumeratorName ?? 'Unknown'}</td>
+                    <td className="py-1.5 pr-3 text-foreground/60">
+                      {violation.submittedAt ? new Date(violation.submittedAt).toLocaleDateString() : '—'}
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => onSelectSubmission(violation.recordKey)}
+                        className="mr-3 text-brand-slate hover:underline"
+                      >
+                        Details
+                      </button>
+                      <a
+                        href={buildSubmissionLink(projectId, violation)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-brand-slate hover:underline"
+                      >
+                        Open
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+          <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+            Village status thresholds
+          </p>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {THRESHOLD_FIELDS.map(({ field, label }) => (
+              <label key={field} className="block">
+                <span className="block text-xs font-semibold text-foreground/80 mb-1">{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={thresholdDraft[field]}
+                  onChange={(e) => setThresholdDraft((prev) => ({ ...prev, [field]: Number(e.target.value) }))}
+                  className={inputClasses}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={() => onThresholdsChange(thresholdDraft)}
+              disabled={
+                thresholdDraft.monitorPercent > thresholdDraft.onTrackPercent ||
+                thresholdDraft.upToDateDays > thresholdDraft.checkInDays
+              }
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full text-sm font-medium disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              Save thresholds
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { StratumQuota } from '@/types';
+
+interface QuotaProgressProps {
+  quotas: StratumQuota[];
+  // Counted submissions that fit none of the quotas
+  outsideQuotas: number;
+}
+
+const getBarColor = (percentage: number) => {
+  if (percentage >= 80) return 'bg-primary';
+  if (percentage >= 50) return 'bg-secondary';
+  return 'bg-danger';
+};
+
+export default function QuotaProgress({ quotas, outsideQuotas }: QuotaProgressProps) {
+  return (
+    <div className="mt-3 space-y-1.5">
+      {quotas.map((quota) => (
+        <div key={quota.stratum}>
+          <div className="flex items-center justify-between text-[11px] text-foreground/70">
+            <span className="truncate pr-2">{quota.stratum}</span>
+            <span className={quota.actual > quota.expected ? 'font-semibold text-amber-700' : ''}>
+              {quota.actual} / {quota.expected}
+            </span>
+          </div>
+          <div className="w-full h-1 bg-brand-oatmeal rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-300 ${getBarColor(quota.percentage)}`}
+              style={{ width: `${quota.percentage}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      {outsideQuotas > 0 && (
+        <p className="text-[11px] text-amber-700">{outsideQuotas} not in any quota</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { X, ExternalLink } from 'lucide-react';
+import type { SpeedingFlag, SpeedingReason, SubmissionRef, ValidationStatus, VillageTargets } from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { buildSubmissionLink } from '@/lib/submissions';
+import ValidationStatusControl from '@/components/ValidationStatusControl';
+import { BASELINE_RATIO, MIN_BASELINE_INTERVIEWS, MIN_SECONDS_PER_ANSWER } from '@/lib/speeding';
+
+type GroupBy = 'village' | 'enumerator';
+
+const REASON_LABELS: Record<SpeedingReason, string> = {
+  'form-length': 'Too short for answers given',
+  'enumerator-baseline': "Well below enumerator's usual pace",
+};
+
+interface SpeedingPanelProps {
+  projectId: string;
+  flags: SpeedingFlag[];
+  targets: VillageTargets;
+  validationStatuses: Record<string, ValidationStatus>;
+  isUpdatingValidation: boolean;
+  onValidationStatusChange: (refs: SubmissionRef[], status: ValidationStatus) => void;
+  onSelectSubmission: (recordKey: string) => void;
+  onClose: () => void;
+}
+
+const formatMinutes = (minutes: number) =>
+  minutes < 1 ? `${Math.round(minutes * 60)}s` : `${Math.round(minutes * 10) / 10} min`;
+
+export default function SpeedingPanel({
+  projectId,
+  flags,
+  targets,
+  validationStatuses,
+  isUpdatingValidation,
+  onValidationStatusChange,
+  onSelectSubmission,
+  onClose,
+}: SpeedingPanelProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('village');
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, { label: string; flags: SpeedingFlag[] }>();
+    flags.forEach((flag) => {
+      let key: string;
+      let label: string;
+      if (groupBy === 'village') {
+        key = villageIndexKey(flag.district, flag.village);
+        const target = targets[flag.district]?.[flag.village];
+        label = target ? `${target.village} (${target.district})` : `${flag.village || 'Unknown village'} (unmatched)`;
+      } else {
+        key = flag.enumeratorId ?? '';
+        label = flag.enumeratorName ?? 'Unknown enumerator';
+      }
+      const group = grouped.get(key) ?? { label, flags: [] };
+      group.flags.push(flag);
+      grouped.set(key, group);
+    });
+    return Array.from(grouped.entries()).sort((a, b) => b[1].flags.length - a[1].flags.length);
+  }, [flags, groupBy, targets]);
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Speeding Check</h2>
+            <p className="text-xs text-foreground/60">
+              Interviews shorter than {MIN_SECONDS_PER_ANSWER}s per answer, or under {BASELINE_RATIO * 100}% of the
+              enumerator&apos;s median once they have {MIN_BASELINE_INTERVIEWS}+ interviews.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 flex items-center gap-2">
+          {(['village', 'enumerator'] as GroupBy[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGroupBy(option)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                groupBy === option
+                  ? 'bg-brand-slate text-white'
+                  : 'bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20'
+              }`}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+
+        {flags.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No implausibly short interviews found.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {groups.map(([key, group]) => (
+              <div key={key} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-semibold text-foreground">
+                    {group.label}
+                    <span className="ml-2 text-xs font-normal text-foreground/60">
+                      {group.flags.length} flagged
+                    </span>
+                  </p>
+                  {group.flags.length > 1 && (
+                    <ValidationStatusControl
+                      status={null}
+                      scope={`all ${group.flags.length}`}
+                      disabled={isUpdatingValidation}
+                      onChange={(status) => onValidationStatusChange(group.flags, status)}
+                    />
+                  )}
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {group.flags.map((flag) => (
+                      <tr key={flag.recordKey} className="border-t border-brand-umber/10 first:border-0">
+                        <td className="py-1.5 pr-3 font-semibold text-danger">{formatMinutes(flag.durationMinutes)}</td>
+                        <td className="py-1.5 pr-3 text-foreground/80">
+                          {groupBy === 'village' ? flag.enumeratorName ?? 'Unknown' : flag.village || 'Unknown'}
+                        </td>
+                        <td className="py-1.5 pr-3 text-foreground/70">
+                          {flag.answeredFields} answers • min {formatMinutes(flag.minimumMinutes)}
+                          {flag.baselineMinutes !== null && ` • usual ${formatMinutes(flag.baselineMinutes)}`}
+                        </td>
+                        <td className="py-1.5 pr-3 text-foreground/60">
+                          {flag.reasons.map((reason) => REASON_LABELS[reason]).join('; ')}
+                        </td>
+                        <td className="py-1.5 pr-3 text-foreground/60">
+                          {flag.submittedAt ? new Date(flag.submittedAt).toLocaleDateString() : '—'}
+                        </td>
+                        <td className="py-1.5 pr-3 text-right">
+                          <button
+                            onClick={() => onSelectSubmission(flag.recordKey)}
+                            className="mr-3 text-brand-slate hover:underline"
+                          >
+                            Details
+                          </button>
+                          <a
+                            href={buildSubmissionLink(projectId, flag)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 text-brand-slate hover:underline"
+                          >
+                            Open
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </td>
+                        <td className="py-1.5 text-right">
+                          <ValidationStatusControl
+                            status={validationStatuses[flag.recordKey] ?? null}
+                            disabled={isUpdatingValidation}
+                            onChange={(status) => onValidationStatusChange([flag], status)}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
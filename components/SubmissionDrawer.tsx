@@ -0,0 +1,180 @@
+import { useMemo } from 'react';
+import { X, ExternalLink, Paperclip } from 'lucide-react';
+import type { FieldMapping, FormSchema, KoBoSubmission, SubmissionRef, ValidationStatus } from '@/types';
+import ValidationStatusControl from '@/components/ValidationStatusControl';
+import { listAnswers, listAttachments, toSubmissionRef } from '@/lib/submissionDetail';
+import {
+  buildSubmissionLink,
+  extractGpsCoordinates,
+  extractInterviewDuration,
+  extractInterviewWindow,
+} from '@/lib/submissions';
+import { getValidationStatus } from '@/lib/validationStatus';
+
+interface SubmissionDrawerProps {
+  projectId: string;
+  submission: KoBoSubmission;
+  formSchema: FormSchema | null;
+  mapping: FieldMapping;
+  isUpdatingValidation: boolean;
+  onValidationStatusChange: (refs: SubmissionRef[], status: ValidationStatus) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (value: Date | string | null | undefined) => {
+  if (!value) return '—';
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+export default function SubmissionDrawer({
+  projectId,
+  submission,
+  formSchema,
+  mapping,
+  isUpdatingValidation,
+  onValidationStatusChange,
+  onClose,
+}: SubmissionDrawerProps) {
+  const ref = useMemo(() => toSubmissionRef(submission, mapping), [submission, mapping]);
+  const answers = useMemo(() => listAnswers(submission, formSchema), [submission, formSchema]);
+  const attachments = useMemo(
+    () => listAttachments(projectId, submission, formSchema),
+    [projectId, submission, formSchema]
+  );
+  const { start, end } = extractInterviewWindow(submission);
+  const duration = extractInterviewDuration(submission);
+  const gps = extractGpsCoordinates(submission, mapping.gpsKeys);
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[2100] flex w-full max-w-lg flex-col border-l border-brand-umber/25 bg-white shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+      <div className="flex items-start justify-between border-b border-brand-umber/20 p-5">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Submission</h2>
+          <p className="text-xs text-foreground/60">
+            {[ref?.village, ref?.district].filter(Boolean).join(', ') || 'Unknown village'}
+            {ref?.enumeratorName && ` • ${ref.enumeratorName}`}
+          </p>
+          {ref && (
+            <a
+              href={buildSubmissionLink(projectId, ref)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-1 inline-flex items-center gap-1 text-xs text-brand-slate hover:underline"
+            >
+              Open on server
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+        <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-5 overflow-y-auto p-5">
+        {ref && (
+          <div>
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">Validation</p>
+            <ValidationStatusControl
+              status={getValidationStatus(submission)}
+              disabled={isUpdatingValidation}
+              onChange={(status) => onValidationStatusChange([ref], status)}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-1">Timing</p>
+            <p className="text-foreground/80">Started {formatTimestamp(start)}</p>
+            <p className="text-foreground/80">Ended {formatTimestamp(end)}</p>
+            <p className="text-foreground/80">Submitted {formatTimestamp(submission._submission_time)}</p>
+            <p className="text-foreground/60">
+              {duration !== null ? `${Math.round(duration * 10) / 10} min interview` : 'Duration unknown'}
+            </p>
+          </div>
+          <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-1">GPS</p>
+            {gps.lat !== null && gps.lon !== null ? (
+              <>
+                <p className="text-foreground/80">
+                  {gps.lat.toFixed(5)}, {gps.lon.toFixed(5)}
+                </p>
+                <p className="text-foreground/60">
+                  {gps.accuracy !== null ? `±${Math.round(gps.accuracy)} m` : 'Accuracy not recorded'}
+                  {gps.altitude !== null && ` • ${Math.round(gps.altitude)} m altitude`}
+                </p>
+              </>
+            ) : (
+              <p className="text-foreground/60">No GPS fix</p>
+            )}
+          </div>
+        </div>
+
+        {attachments.length > 0 && (
+          <div>
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+              Attachments ({attachments.length})
+            </p>
+            <div className="space-y-2">
+              {attachments.map((attachment) => (
+                <div key={attachment.url} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-2">
+                  {attachment.kind === 'image' && (
+                    <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={attachment.url}
+                        alt={attachment.name}
+                        loading="lazy"
+                        className="max-h-64 w-full rounded-lg object-contain"
+                      />
+                    </a>
+                  )}
+                  {attachment.kind === 'audio' && <audio controls preload="none" src={attachment.url} className="w-full" />}
+                  {attachment.kind === 'video' && (
+                    <video controls preload="none" src={attachment.url} className="max-h-64 w-full rounded-lg" />
+                  )}
+                  <a
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 inline-flex items-center gap-1 text-xs text-brand-slate hover:underline"
+                  >
+                    <Paperclip className="w-3 h-3" />
+                    {attachment.name}
+                  </a>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+            Answers ({answers.length})
+          </p>
+          {answers.length === 0 ? (
+            <p className="text-xs text-foreground/60">No answers recorded.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody>
+                {answers.map((answer, index) => (
+                  <tr
+                    key={`${answer.path}-${answer.entry ?? 0}-${index}`}
+                    className="border-t border-brand-umber/10 first:border-0 align-top"
+                  >
+                    <td className="py-1.5 pr-3 w-1/2 text-foreground/60">
+                      {answer.label}
+                      {answer.entry !== null && <span className="ml-1 text-foreground/40">#{answer.entry}</span>}
+                    </td>
+                    <td className="py-1.5 text-foreground break-words">{answer.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Eye, ArrowRight } from 'lucide-react';
+import type { TargetChange, TargetChangeKind, TargetVersion, TargetVersionSummary } from '@/types';
+import { buildVillageTargets } from '@/lib/villageTargets';
+import { diffVillageTargets, fetchTargetVersion } from '@/lib/targetVersions';
+
+const CHANGE_LABELS: Record<TargetChangeKind, { label: string; classes: string }> = {
+  added: { label: 'Added', classes: 'bg-emerald-100 text-emerald-700' },
+  removed: { label: 'Removed', classes: 'bg-danger/15 text-danger' },
+  changed: { label: 'Changed', classes: 'bg-amber-100 text-amber-700' },
+};
+
+const selectClasses =
+  'px-2 py-1 bg-white border border-brand-umber/30 rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary';
+
+interface TargetHistoryPanelProps {
+  projectId: string;
+  // Newest first
+  versions: TargetVersionSummary[];
+  // Version whose targets progress is currently measured against; null for the latest
+  viewedVersion: number | null;
+  onView: (version: number | null) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (before: number | undefined, after: number | undefined) => {
+  if (before === undefined || after === undefined || before === after) return null;
+  const delta = after - before;
+  return delta > 0 ? `+${delta}` : String(delta);
+};
+
+// "Stratum: before → after" for each quota that differs
+const describeQuotaChanges = (change: TargetChange): string[] => {
+  const before = change.before?.quotas ?? {};
+  const after = change.after?.quotas ?? {};
+  const strata = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return strata
+    .filter((stratum) => before[stratum] !== after[stratum])
+    .map((stratum) => `${stratum}: ${before[stratum] ?? '—'} → ${after[stratum] ?? '—'}`);
+};
+
+export default function TargetHistoryPanel({
+  projectId,
+  versions,
+  viewedVersion,
+  onView,
+  onClose,
+}: TargetHistoryPanelProps) {
+  const latest = versions[0]?.version ?? null;
+  const [fromVersion, setFromVersion] = useState<number | null>(versions[1]?.version ?? null);
+  const [toVersion, setToVersion] = useState<number | null>(latest);
+  const [loaded, setLoaded] = useState<Record<number, TargetVersion>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const requestedRef = useRef(new Set<number>());
+
+  // Rows are only fetched for the versions being compared
+  useEffect(() => {
+    [fromVersion, toVersion].forEach((version) => {
+      if (version === null || requestedRef.current.has(version)) return;
+      requestedRef.current.add(version);
+      fetchTargetVersion(projectId, version)
+        .then((row) => setLoaded((prev) => ({ ...prev, [version]: row })))
+        .catch((error: any) => {
+          requestedRef.current.delete(version);
+          setLoadError(`Failed to load version ${version}: ${error.message}`);
+        });
+    });
+  }, [projectId, fromVersion, toVersion]);
+
+  const from = fromVersion !== null ? loaded[fromVersion] : undefined;
+  const to = toVersion !== null ? loaded[toVersion] : undefined;
+  const changes = useMemo(
+    () => (from && to ? diffVillageTargets(buildVillageTargets(from.rows), buildVillageTargets(to.rows)) : null),
+    [from, to]
+  );
+  const hasQuotaChanges = changes?.some((change) => describeQuotaChanges(change).length > 0) ?? false;
+
+  return (
+    <div className="fixed inset-0 z-[2100] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Target History</h2>
+            <p className="text-xs text-foreground/60">
+              Every saved change to this project&apos;s village targets. View progress against an earlier version, or
+              compare two versions village by village.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            No versions saved yet. Saving targets from the targets manager creates version 1.
+          </p>
+        ) : (
+          <>
+            <table className="w-full text-xs mb-6">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                  <th className="py-2 pr-3 font-semibold">Version</th>
+                  <th className="py-2 pr-3 font-semibold">Saved</th>
+                  <th className="py-2 pr-3 font-semibold">Reason</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Villages</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Target (HH)</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((version) => {
+                  const isViewed = (viewedVersion ?? latest) === version.version;
+                  return (
+                    <tr key={version.version} className="border-t border-brand-umber/10 align-top">
+                      <td className="py-1.5 pr-3 font-semibold text-foreground">
+                        v{version.version}
+                        {version.version === latest && (
+                          <span className="ml-2 rounded-full bg-brand-oatmeal px-2 py-0.5 text-[10px] font-semibold text-foreground/70">
+                            Current
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1.5 pr-3 text-foreground/70">
+                        <span className="block text-foreground/80">{version.author}</span>
+                        {new Date(version.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-1.5 pr-3 text-foreground/80">{version.note}</td>
+                      <td className="py-1.5 pr-3 text-right text-foreground/80">{version.villageCount}</td>
+                      <td className="py-1.5 pr-3 text-right text-foreground/80">{version.totalExpected}</td>
+                      <td className="py-1.5 text-right">
+                        <button
+                          onClick={() => onView(version.version === latest ? null : version.version)}
+                          disabled={isViewed}
+                          className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-brand-slate text-white disabled:opacity-50"
+                        >
+                          <Eye className="w-3 h-3" />
+                          {isViewed ? 'Viewing' : 'View progress'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mr-2">Compare</p>
+                <select
+                  value={fromVersion ?? ''}
+                  onChange={(e) => setFromVersion(e.target.value ? Number(e.target.value) : null)}
+                  className={selectClasses}
+                >
+                  <option value="">Select version...</option>
+                  {versions.map((version) => (
+                    <option key={version.version} value={version.version}>
+                      v{version.version}
+                    </option>
+                  ))}
+                </select>
+                <ArrowRight className="w-3.5 h-3.5 text-foreground/50" />
+                <select
+                  value={toVersion ?? ''}
+                  onChange={(e) => setToVersion(e.target.value ? Number(e.target.value) : null)}
+                  className={selectClasses}
+                >
+                  <option value="">Select version...</option>
+                  {versions.map((version) => (
+                    <option key={version.version} value={version.version}>
+                      v{version.version}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {loadError && <p className="mb-2 text-xs text-danger">{loadError}</p>}
+
+              {fromVersion === null || toVersion === null ? (
+                <p className="text-xs text-foreground/60">Pick two versions to see what changed.</p>
+              ) : !changes ? (
+                <p className="text-xs text-foreground/60">Loading versions...</p>
+              ) : changes.length === 0 ? (
+                <p className="text-xs text-foreground/60">No village targets differ between these versions.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                      <th className="py-2 pr-3 font-semibold">Village</th>
+                      <th className="py-2 pr-3 font-semibold">Change</th>
+                      <th className="py-2 pr-3 font-semibold text-right">Target (HH)</th>
+                      <th className="py-2 font-semibold text-right">Days</th>
+                      {hasQuotaChanges && <th className="py-2 pl-3 font-semibold">Quotas</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => {
+                      const expectedDelta = formatDelta(change.before?.expected, change.after?.expected);
+                      return (
+                        <tr key={`${change.district}|${change.village}`} className="border-t border-brand-umber/10">
+                          <td className="py-1.5 pr-3">
+                            <span className="font-semibold text-foreground">{change.village}</span>
+                            <span className="ml-1 text-foreground/60">{change.district}</span>
+                          </td>
+                          <td className="py-1.5 pr-3">
+                            <span
+                              className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${CHANGE_LABELS[change.kind].classes}`}
+                            >
+                              {CHANGE_LABELS[change.kind].label}
+                            </span>
+                          </td>
+                          <td className="py-1.5 pr-3 text-right text-foreground/80">
+                            {change.before?.expected ?? '—'} → {change.after?.expected ?? '—'}
+                            {expectedDelta && <span className="ml-1 font-semibold">({expectedDelta})</span>}
+                          </td>
+                          <td className="py-1.5 text-right text-foreground/80">
+                            {change.before?.optimalDays ?? '—'} → {change.after?.optimalDays ?? '—'}
+                          </td>
+                          {hasQuotaChanges && (
+                            <td className="py-1.5 pl-3 text-foreground/80">
+                              {describeQuotaChanges(change).map((line) => (
+                                <span key={line} className="block">
+                                  {line}
+                                </span>
+                              ))}
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
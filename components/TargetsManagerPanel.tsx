@@ -0,0 +1,407 @@
+import { useMemo, useState } from 'react';
+import { X, Upload, Download, Plus, Trash2, Save, RotateCcw, History, Layers } from 'lucide-react';
+import type { TargetIssue, TargetIssueKind, TargetRow } from '@/types';
+import {
+  emptyTargetRow,
+  listQuotaStrata,
+  parseTargetsFile,
+  targetRowsToCsv,
+  validateTargetRows,
+  type TargetColumn,
+} from '@/lib/villageTargets';
+import { loadTargetAuthor } from '@/lib/targetVersions';
+
+const ISSUE_LABELS: Record<TargetIssueKind, string> = {
+  'missing-name': 'Missing names',
+  'duplicate-village': 'Duplicate villages',
+  'non-numeric': 'Non-numeric values',
+  'missing-target': 'Missing targets',
+  'unknown-district': 'Unknown districts',
+  'quota-mismatch': 'Quotas not matching target',
+};
+
+const COLUMNS: Array<{ key: TargetColumn; label: string; numeric: boolean; location?: boolean }> = [
+  { key: 'district', label: 'District', numeric: false },
+  { key: 'village', label: 'Village', numeric: false },
+  { key: 'expected', label: 'Target (HH)', numeric: true },
+  { key: 'optimalDays', label: 'Days', numeric: true },
+  { key: 'latitude', label: 'Latitude', numeric: true, location: true },
+  { key: 'longitude', label: 'Longitude', numeric: true, location: true },
+  { key: 'radiusKm', label: 'Radius (km)', numeric: true, location: true },
+];
+
+const inputClasses =
+  'w-full px-2 py-1 bg-white border border-brand-umber/30 rounded-md text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary';
+
+interface TargetsManagerPanelProps {
+  rows: TargetRow[];
+  // Lowercase districts from the current targets and submissions
+  knownDistricts: string[];
+  // Whether the applied targets override public/village-targets.csv
+  isCustom: boolean;
+  // Rows of public/village-targets.csv
+  defaultRows: TargetRow[];
+  // Set when targets are versioned on the server; each apply then records who changed them and why
+  history: { currentVersion: number | null; onOpen: () => void } | null;
+  isSaving: boolean;
+  onApply: (rows: TargetRow[], change: { author: string; note: string }) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export default function TargetsManagerPanel({
+  rows,
+  knownDistricts,
+  isCustom,
+  defaultRows,
+  history,
+  isSaving,
+  onApply,
+  onReset,
+  onClose,
+}: TargetsManagerPanelProps) {
+  const [draft, setDraft] = useState<TargetRow[]>(rows);
+  const [source, setSource] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [author, setAuthor] = useState(loadTargetAuthor);
+  const [note, setNote] = useState('');
+  // Quota columns added here that have no values yet
+  const [addedStrata, setAddedStrata] = useState<string[]>([]);
+
+  const issues = useMemo(() => validateTargetRows(draft, knownDistricts), [draft, knownDistricts]);
+  const issuesByRow = useMemo(() => {
+    const grouped = new Map<number, TargetIssue[]>();
+    issues.forEach((issue) => grouped.set(issue.row, [...(grouped.get(issue.row) ?? []), issue]));
+    return grouped;
+  }, [issues]);
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<TargetIssueKind, number>> = {};
+    issues.forEach((issue) => {
+      counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+    });
+    return counts;
+  }, [issues]);
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  const showLocation = draft.some((row) => row.latitude || row.longitude || row.radiusKm);
+  const columns = COLUMNS.filter((column) => showLocation || !column.location);
+  const strata = useMemo(() => {
+    const fromRows = listQuotaStrata(draft);
+    return [...fromRows, ...addedStrata.filter((stratum) => !fromRows.includes(stratum))];
+  }, [draft, addedStrata]);
+  const isDirty = source !== null || JSON.stringify(draft) !== JSON.stringify(rows);
+  const needsChangeNote = history !== null && (!author.trim() || !note.trim());
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await parseTargetsFile(file);
+      if (parsed.length === 0) {
+        setFileError(`${file.name} has no rows with District or Village columns`);
+        return;
+      }
+      setDraft(parsed);
+      setSource(file.name);
+      setFileError(null);
+    } catch (error: any) {
+      setFileError(`Failed to read ${file.name}: ${error.message}`);
+    }
+  };
+
+  const updateCell = (index: number, key: TargetColumn, value: string) => {
+    setDraft((prev) => prev.map((row, rowIndex) => (rowIndex === index ? { ...row, [key]: value } : row)));
+  };
+
+  const updateQuota = (index: number, stratum: string, value: string) => {
+    // Keep the column while its last value is being retyped
+    setAddedStrata((prev) => (prev.includes(stratum) ? prev : [...prev, stratum]));
+    setDraft((prev) =>
+      prev.map((row, rowIndex) => {
+        if (rowIndex !== index) return row;
+        const { [stratum]: _previous, ...quotas } = row.quotas;
+        return { ...row, quotas: value ? { ...quotas, [stratum]: value } : quotas };
+      })
+    );
+  };
+
+  const handleAddStratum = () => {
+    const stratum = window.prompt('Stratum, as answered in the form (choice code or label)')?.trim();
+    if (stratum && !strata.some((existing) => existing.toLowerCase() === stratum.toLowerCase())) {
+      setAddedStrata((prev) => [...prev, stratum]);
+    }
+  };
+
+  const handleRemoveStratum = (stratum: string) => {
+    setAddedStrata((prev) => prev.filter((existing) => existing !== stratum));
+    setDraft((prev) =>
+      prev.map((row) => {
+        if (!(stratum in row.quotas)) return row;
+        const { [stratum]: _removed, ...quotas } = row.quotas;
+        return { ...row, quotas };
+      })
+    );
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([targetRowsToCsv(draft)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'village-targets.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Village Targets</h2>
+            {history ? (
+              <p className="text-xs text-foreground/60">
+                Upload a CSV or .xlsx file, or edit targets below. Changes are checked before they&apos;re applied and
+                saved on the server as a new version
+                {history.currentVersion !== null ? `; this project is on version ${history.currentVersion}` : ''}.
+              </p>
+            ) : (
+              <p className="text-xs text-foreground/60">
+                Upload a CSV or .xlsx file, or edit targets below. Changes are checked before they&apos;re applied and
+                are stored per project in this browser{isCustom ? '; this project currently uses edited targets' : ''}.
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-slate text-white cursor-pointer hover:bg-brand-slate/90">
+            <Upload className="w-3.5 h-3.5" />
+            Upload CSV / XLSX
+            <input type="file" accept=".csv,.xlsx" onChange={handleFileUpload} className="hidden" />
+          </label>
+          <button
+            onClick={() => setDraft((prev) => [...prev, emptyTargetRow()])}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20 hover:text-foreground"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add village
+          </button>
+          <button
+            onClick={handleAddStratum}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20 hover:text-foreground"
+          >
+            <Layers className="w-3.5 h-3.5" />
+            Add quota
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20 hover:text-foreground"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download CSV
+          </button>
+          {history && (
+            <button
+              onClick={history.onOpen}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-brand-oatmeal/60 text-foreground/80 border border-brand-umber/20 hover:text-foreground"
+            >
+              <History className="w-3.5 h-3.5" />
+              History
+            </button>
+          )}
+          {source && <span className="text-xs text-foreground/60">Loaded {source}, not applied yet</span>}
+        </div>
+
+        {fileError && (
+          <p className="mb-4 rounded-xl border border-danger/30 bg-danger/10 p-3 text-xs text-danger">{fileError}</p>
+        )}
+
+        <div className="mb-4 rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60">
+              Validation report • {draft.length} rows
+            </p>
+            {issues.length > 0 && (
+              <label className="flex items-center gap-2 text-xs text-foreground/70">
+                <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} />
+                Only rows with issues
+              </label>
+            )}
+          </div>
+          {issues.length === 0 ? (
+            <p className="mt-1 text-xs text-emerald-600 font-semibold">No problems found.</p>
+          ) : (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {(Object.keys(ISSUE_LABELS) as TargetIssueKind[])
+                .filter((kind) => issueCounts[kind])
+                .map((kind) => {
+                  const isError = issues.some((issue) => issue.kind === kind && issue.severity === 'error');
+                  return (
+                    <span
+                      key={kind}
+                      className={`rounded-full px-2.5 py-0.5 text-xs font-semibold ${
+                        isError ? 'bg-danger/15 text-danger' : 'bg-amber-100 text-amber-700'
+                      }`}
+                    >
+                      {ISSUE_LABELS[kind]}: {issueCounts[kind]}
+                    </span>
+                  );
+                })}
+            </div>
+          )}
+          {errorCount > 0 && (
+            <p className="mt-2 text-xs text-danger">Fix the {errorCount} error(s) before applying.</p>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-[0.15em] text-foreground/60">
+                <th className="py-2 pr-2 font-semibold">#</th>
+                {columns.map((column) => (
+                  <th key={column.key} className="py-2 pr-2 font-semibold">
+                    {column.label}
+                  </th>
+                ))}
+                {strata.map((stratum) => (
+                  <th key={`quota-${stratum}`} className="py-2 pr-2 font-semibold whitespace-nowrap">
+                    Quota: {stratum}
+                    <button
+                      onClick={() => handleRemoveStratum(stratum)}
+                      className="ml-1 align-middle text-foreground/50 hover:text-danger"
+                      title="Remove quota column"
+                    >
+                      <X className="inline w-3 h-3" />
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2" />
+                <th className="py-2 pl-2 font-semibold">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((row, index) => {
+                const rowIssues = issuesByRow.get(index) ?? [];
+                if (onlyIssues && rowIssues.length === 0) return null;
+                const hasError = rowIssues.some((issue) => issue.severity === 'error');
+                return (
+                  <tr key={index} className="border-t border-brand-umber/10 align-top">
+                    <td className={`py-1.5 pr-2 ${hasError ? 'text-danger font-semibold' : 'text-foreground/50'}`}>
+                      {index + 1}
+                    </td>
+                    {columns.map((column) => (
+                      <td key={column.key} className="py-1.5 pr-2">
+                        <input
+                          type="text"
+                          inputMode={column.numeric ? 'decimal' : undefined}
+                          value={row[column.key]}
+                          onChange={(e) => updateCell(index, column.key, e.target.value)}
+                          className={`${inputClasses} ${column.numeric ? 'w-24' : ''}`}
+                        />
+                      </td>
+                    ))}
+                    {strata.map((stratum) => (
+                      <td key={`quota-${stratum}`} className="py-1.5 pr-2">
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={row.quotas[stratum] ?? ''}
+                          onChange={(e) => updateQuota(index, stratum, e.target.value)}
+                          className={`${inputClasses} w-24`}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1.5 text-right">
+                      <button
+                        onClick={() => setDraft((prev) => prev.filter((_, rowIndex) => rowIndex !== index))}
+                        className="inline-flex items-center text-foreground/60 hover:text-danger"
+                        title="Remove village"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                    <td className="py-1.5 pl-2 min-w-[14rem]">
+                      {rowIssues.map((issue, issueIndex) => (
+                        <span
+                          key={issueIndex}
+                          className={`block ${issue.severity === 'error' ? 'text-danger' : 'text-amber-700'}`}
+                        >
+                          {issue.message}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {history && (
+          <div className="mt-4 grid gap-3 sm:grid-cols-[12rem_1fr]">
+            <label className="text-xs text-foreground/70">
+              Your name
+              <input
+                type="text"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                className={`${inputClasses} mt-1 text-sm`}
+              />
+            </label>
+            <label className="text-xs text-foreground/70">
+              Reason for change
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Re-allocated 40 HH from Mmadinare to Sefhophe"
+                className={`${inputClasses} mt-1 text-sm`}
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="mt-4 flex items-center justify-end gap-3">
+          {history ? (
+            <button
+              onClick={() => {
+                setDraft(defaultRows);
+                setSource('public/village-targets.csv');
+              }}
+              className="mr-auto flex items-center gap-2 px-4 py-2 text-sm text-foreground/70 hover:text-foreground"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Load default targets file
+            </button>
+          ) : isCustom && (
+            <button
+              onClick={onReset}
+              className="mr-auto flex items-center gap-2 px-4 py-2 text-sm text-foreground/70 hover:text-foreground"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Restore default targets file
+            </button>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-sm text-foreground/70 hover:text-foreground">
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(draft, { author: author.trim(), note: note.trim() })}
+            disabled={errorCount > 0 || !isDirty || needsChangeNote || isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-full text-sm font-medium disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Saving...' : history ? 'Save new version' : 'Apply targets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
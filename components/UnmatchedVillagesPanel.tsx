@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { X, Check, Trash2 } from 'lucide-react';
+import type { UnmatchedVillage, VillageAliasTable, VillageRef, VillageTargets } from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { suggestVillageMatches } from '@/lib/villageAliases';
+
+interface UnmatchedVillagesPanelProps {
+  unmatched: UnmatchedVillage[];
+  targets: VillageTargets;
+  aliases: VillageAliasTable;
+  onConfirm: (source: VillageRef, target: VillageRef) => void;
+  onRemoveAlias: (key: string) => void;
+  onClose: () => void;
+}
+
+const confidenceTone = (confidence: number) =>
+  confidence >= 0.85 ? 'text-emerald-600' : confidence >= 0.7 ? 'text-amber-600' : 'text-foreground/60';
+
+export default function UnmatchedVillagesPanel({
+  unmatched,
+  targets,
+  aliases,
+  onConfirm,
+  onRemoveAlias,
+  onClose,
+}: UnmatchedVillagesPanelProps) {
+  // Manual picks from the full village list, keyed by the unmatched pair
+  const [manualChoice, setManualChoice] = useState<Record<string, string>>({});
+
+  const targetOptions = useMemo(
+    () =>
+      Object.entries(targets)
+        .flatMap(([district, villages]) =>
+          Object.entries(villages).map(([village, data]) => ({
+            value: villageIndexKey(district, village),
+            ref: { district, village },
+            label: `${data.village} (${data.district})`,
+          }))
+        )
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [targets]
+  );
+
+  const suggestions = useMemo(() => {
+    const byKey: Record<string, ReturnType<typeof suggestVillageMatches>> = {};
+    unmatched.forEach((entry) => {
+      byKey[villageIndexKey(entry.district, entry.village)] = suggestVillageMatches(entry, targets);
+    });
+    return byKey;
+  }, [unmatched, targets]);
+
+  const displayName = (ref: VillageRef) => {
+    const target = targets[ref.district]?.[ref.village];
+    return target ? `${target.village} (${target.district})` : `${ref.village} (${ref.district})`;
+  };
+
+  const aliasEntries = Object.entries(aliases);
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-brand-slate/40 p-4 backdrop-blur-sm">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl border border-brand-umber/25 bg-white p-6 shadow-[0_24px_48px_-24px_rgba(43,37,57,0.45)]">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground tracking-wide uppercase">Unmatched Submissions</h2>
+            <p className="text-xs text-foreground/60">
+              Villages named in submissions that don&apos;t match a target. Confirmed mappings apply on every sync.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-foreground/60 hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {unmatched.length === 0 ? (
+          <p className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3 text-xs text-foreground/60">
+            Every submission matches a target village.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {unmatched.map((entry) => {
+              const key = villageIndexKey(entry.district, entry.village);
+              const choice = manualChoice[key] ?? '';
+              const chosen = targetOptions.find((option) => option.value === choice);
+              return (
+                <div key={key} className="rounded-xl border border-brand-umber/20 bg-brand-oatmeal/60 p-3">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-sm font-semibold text-foreground">
+                      {entry.village}
+                      <span className="ml-1 text-xs font-normal text-foreground/60">
+                        {entry.district || 'No district'}
+                      </span>
+                    </p>
+                    <p className="text-xs text-foreground/60">
+                      {entry.submissionCount} submission{entry.submissionCount === 1 ? '' : 's'}
+                      {entry.latestSubmission && ` • last ${new Date(entry.latestSubmission).toLocaleDateString()}`}
+                    </p>
+                  </div>
+
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    {suggestions[key]?.map((suggestion) => (
+                      <button
+                        key={villageIndexKey(suggestion.district, suggestion.village)}
+                        onClick={() => onConfirm(entry, suggestion)}
+                        className="flex items-center gap-1.5 rounded-full border border-brand-umber/30 bg-white px-3 py-1 text-xs text-foreground hover:border-primary"
+                      >
+                        <Check className="w-3 h-3" />
+                        {displayName(suggestion)}
+                        <span className={`font-semibold ${confidenceTone(suggestion.confidence)}`}>
+                          {Math.round(suggestion.confidence * 100)}%
+                        </span>
+                      </button>
+                    ))}
+                    {suggestions[key]?.length === 0 && (
+                      <span className="text-xs text-foreground/60">No close matches</span>
+                    )}
+                  </div>
+
+                  <div className="mt-2 flex items-center gap-2">
+                    <select
+                      value={choice}
+                      onChange={(e) => setManualChoice((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="flex-1 px-3 py-1.5 bg-white border border-brand-umber/30 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+                    >
+                      <option value="">Map to another village…</option>
+                      {targetOptions.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => chosen && onConfirm(entry, chosen.ref)}
+                      disabled={!chosen}
+                      className="px-3 py-1.5 bg-primary text-primary-foreground rounded-full text-xs font-medium disabled:opacity-50"
+                    >
+                      Confirm
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {aliasEntries.length > 0 && (
+          <div className="mt-5">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.25em] text-foreground/60 mb-2">
+              Confirmed aliases
+            </p>
+            <table className="w-full text-xs">
+              <tbody>
+                {aliasEntries.map(([key, target]) => {
+                  const [district, village] = key.split('|');
+                  return (
+                    <tr key={key} className="border-t border-brand-umber/10 first:border-0">
+                      <td className="py-1.5 pr-3 text-foreground/80">
+                        {village} <span className="text-foreground/60">{district}</span>
+                      </td>
+                      <td className="py-1.5 pr-3 font-semibold text-foreground">→ {displayName(target)}</td>
+                      <td className="py-1.5 text-right">
+                        <button
+                          onClick={() => onRemoveAlias(key)}
+                          className="text-foreground/60 hover:text-danger"
+                          title="Remove alias"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
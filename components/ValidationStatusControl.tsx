@@ -0,0 +1,51 @@
+import type { ValidationStatus } from '@/types';
+import { VALIDATION_STATUS_LABELS } from '@/lib/validationStatus';
+
+const STATUS_ORDER: ValidationStatus[] = ['approved', 'on-hold', 'not-approved'];
+
+const ACTIVE_CLASSES: Record<ValidationStatus, string> = {
+  approved: 'bg-emerald-600 text-white border-emerald-600',
+  'on-hold': 'bg-amber-500 text-white border-amber-500',
+  'not-approved': 'bg-danger text-danger-foreground border-danger',
+};
+
+const ACTION_LABELS: Record<ValidationStatus, string> = {
+  approved: 'Approve',
+  'on-hold': 'Hold',
+  'not-approved': 'Reject',
+};
+
+interface ValidationStatusControlProps {
+  // Current status; null for unreviewed records or for bulk actions over a group
+  status: ValidationStatus | null;
+  onChange: (status: ValidationStatus) => void;
+  disabled?: boolean;
+  // Prefix for the button tooltips, e.g. "all 4"
+  scope?: string;
+}
+
+export default function ValidationStatusControl({ status, onChange, disabled, scope }: ValidationStatusControlProps) {
+  return (
+    <div className="inline-flex items-center gap-1">
+      {STATUS_ORDER.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          disabled={disabled || status === option}
+          title={
+            status === option
+              ? VALIDATION_STATUS_LABELS[option]
+              : `${ACTION_LABELS[option]}${scope ? ` ${scope}` : ''} on the server`
+          }
+          className={`px-2 py-0.5 rounded-full border text-[11px] font-medium disabled:cursor-default ${
+            status === option
+              ? ACTIVE_CLASSES[option]
+              : 'bg-white text-foreground/70 border-brand-umber/30 hover:bg-brand-oatmeal disabled:opacity-50'
+          }`}
+        >
+          {status === option ? VALIDATION_STATUS_LABELS[option] : ACTION_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
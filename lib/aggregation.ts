@@ -0,0 +1,442 @@
+import type {
+  AggregationResult,
+  EnumeratorDayStats,
+  EnumeratorInfo,
+  FieldMapping,
+  DuplicateCandidate,
+  FormSchema,
+  InterviewTiming,
+  KoBoSubmission,
+  LocationCandidate,
+  QualityRule,
+  SubmissionRef,
+  UnmatchedVillage,
+  VillageAggregate,
+  VillageAliasTable,
+  VillageTargets,
+} from '@/types';
+import { extractEnumeratorInfo, getEnumeratorColor } from '@/lib/enumeratorColors';
+import { compileFormSchema, computeRequiredFillRate } from '@/lib/formSchema';
+import { detectSpeeding } from '@/lib/speeding';
+import { detectDuplicates } from '@/lib/duplicates';
+import { detectLocationMismatches } from '@/lib/locationValidation';
+import { createMissingnessTally } from '@/lib/missingness';
+import { createRuleEvaluator } from '@/lib/qualityRules';
+import { isRejected } from '@/lib/validationStatus';
+import { createStratumMatcher } from '@/lib/strata';
+import {
+  computeFieldFillRate,
+  countAnsweredFields,
+  countsTowardTarget,
+  extractAnswerValues,
+  extractGpsCoordinates,
+  extractInterviewDuration,
+  extractInterviewWindow,
+  extractLatestTimestamp,
+  extractSubmissionValue,
+  FORM_UID_KEY,
+  getRecordKey,
+} from '@/lib/submissions';
+
+export interface AggregationContext {
+  mapping: FieldMapping;
+  formSchema: FormSchema | null;
+  aliases: VillageAliasTable;
+  // Record keys (getRecordKey) a supervisor excluded, e.g. confirmed duplicates
+  excluded: string[];
+  // Supervisor-defined checks evaluated against each counted submission
+  rules: QualityRule[];
+}
+
+export interface AggregationRequest extends AggregationContext {
+  requestId: number;
+  targets: VillageTargets;
+  submissions: KoBoSubmission[];
+}
+
+export interface AggregationMessage {
+  // Progress results leave out households' raw submissions and the whole-dataset checks
+  type: 'progress' | 'done';
+  requestId: number;
+  result: AggregationResult;
+}
+
+export const villageIndexKey = (district: string, village: string) => `${district}|${village}`;
+
+type EnumeratorCounts = Omit<EnumeratorInfo, 'color'>;
+
+const bumpEnumerator = (
+  map: Map<string, EnumeratorCounts>,
+  info: { id: string; name: string },
+  hasGps: boolean,
+  day: string | null
+) => {
+  const existing = map.get(info.id);
+  const target = existing ?? {
+    id: info.id,
+    name: info.name,
+    submissionCount: 0,
+    gpsSubmissionCount: 0,
+    missingGpsCount: 0,
+    dailyCounts: {},
+  };
+
+  target.submissionCount += 1;
+  if (hasGps) {
+    target.gpsSubmissionCount += 1;
+  } else {
+    target.missingGpsCount += 1;
+  }
+  if (day) {
+    target.dailyCounts[day] = (target.dailyCounts[day] ?? 0) + 1;
+  }
+
+  if (!existing) {
+    map.set(info.id, target);
+  }
+};
+
+/**
+ * Single-pass aggregation of submissions into village progress, enumerator totals and a
+ * per-village index. Submissions can be added in chunks and snapshotted in between.
+ */
+export function createAggregator(
+  baseTargets: VillageTargets,
+  { mapping, formSchema, aliases, excluded, rules }: AggregationContext
+) {
+  const excludedKeys = new Set(excluded);
+  const targets: VillageTargets = {};
+  Object.entries(baseTargets).forEach(([districtKey, villages]) => {
+    targets[districtKey] = {};
+    Object.entries(villages).forEach(([villageKey, village]) => {
+      targets[districtKey][villageKey] = {
+        ...village,
+        actual: 0,
+        percentage: 0,
+        households: [],
+        formCounts: {},
+        ...(village.quotas && {
+          quotas: village.quotas.map((quota) => ({ ...quota, actual: 0, percentage: 0 })),
+          outsideQuotas: 0,
+        }),
+      };
+    });
+  });
+
+  const enumerators = new Map<string, EnumeratorCounts>();
+  const villages = new Map<
+    string,
+    Omit<VillageAggregate, 'enumerators'> & { enumerators: Map<string, EnumeratorCounts> }
+  >();
+  const unmatched = new Map<string, UnmatchedVillage>();
+  const enumeratorDays = new Map<
+    string,
+    Map<string, Omit<EnumeratorDayStats, 'villages'> & { villages: Set<string> }>
+  >();
+  const timings: InterviewTiming[] = [];
+  const duplicateCandidates: DuplicateCandidate[] = [];
+  // Records from one village share these by construction, which would inflate answer similarity
+  const identityPaths = new Set([...mapping.districtKeys, ...mapping.villageKeys, ...mapping.enumeratorKeys]);
+  const locationCandidates: LocationCandidate[] = [];
+  const compiledSchema = formSchema ? compileFormSchema(formSchema) : null;
+  const missingnessTally = createMissingnessTally(compiledSchema);
+  const ruleEvaluator = createRuleEvaluator(rules, formSchema);
+  const matchStratum = createStratumMatcher(mapping, formSchema);
+  let processed = 0;
+
+  const recordEnumeratorDay = (
+    enumeratorId: string,
+    day: string,
+    submission: KoBoSubmission,
+    { hasGps, fill, villageIndex }: { hasGps: boolean; fill: number | null; villageIndex: string | null }
+  ) => {
+    const days = enumeratorDays.get(enumeratorId) ?? new Map();
+    enumeratorDays.set(enumeratorId, days);
+    const stats = days.get(day) ?? {
+      submissions: 0,
+      gpsSubmissions: 0,
+      durations: [],
+      fillRateTotal: 0,
+      fillRateCount: 0,
+      villages: new Set<string>(),
+      firstActivity: null,
+      lastActivity: null,
+    };
+    days.set(day, stats);
+
+    stats.submissions += 1;
+    if (hasGps) stats.gpsSubmissions += 1;
+    if (fill !== null) {
+      stats.fillRateTotal += fill;
+      stats.fillRateCount += 1;
+    }
+    if (villageIndex) stats.villages.add(villageIndex);
+
+    const duration = extractInterviewDuration(submission);
+    if (duration !== null) {
+      stats.durations.push(duration);
+      const { start, end } = extractInterviewWindow(submission);
+      const startIso = (start as Date).toISOString();
+      const endIso = (end as Date).toISOString();
+      if (!stats.firstActivity || startIso < stats.firstActivity) stats.firstActivity = startIso;
+      if (!stats.lastActivity || endIso > stats.lastActivity) stats.lastActivity = endIso;
+    }
+  };
+
+  const add = (submissions: KoBoSubmission[]) => {
+    submissions.forEach((submission) => {
+      processed += 1;
+
+      const rawDistrict = extractSubmissionValue(submission, mapping.districtKeys);
+      const rawVillage = extractSubmissionValue(submission, mapping.villageKeys);
+      const alias = aliases[villageIndexKey(rawDistrict, rawVillage)];
+      const districtKey = alias?.district ?? rawDistrict;
+      const villageKey = alias?.village ?? rawVillage;
+      const matchedVillage = districtKey && villageKey ? targets[districtKey]?.[villageKey] : undefined;
+      const latest = extractLatestTimestamp(submission, mapping.timestampKeys)?.toISOString() ?? null;
+      const day = latest ? latest.slice(0, 10) : null;
+      const recordKey = getRecordKey(submission);
+      // Supervisor exclusions and interviews rejected on the server are handled alike
+      const isExcluded = (recordKey !== null && excludedKeys.has(recordKey)) || isRejected(submission);
+
+      // Keep named but unknown villages so a supervisor can alias them
+      if (!matchedVillage && rawVillage && !isExcluded) {
+        const unmatchedKey = villageIndexKey(rawDistrict, rawVillage);
+        const entry = unmatched.get(unmatchedKey) ?? {
+          district: rawDistrict,
+          village: rawVillage,
+          submissionCount: 0,
+          latestSubmission: null,
+        };
+        unmatched.set(unmatchedKey, entry);
+        entry.submissionCount += 1;
+        if (latest && (!entry.latestSubmission || latest > entry.latestSubmission)) {
+          entry.latestSubmission = latest;
+        }
+      }
+
+      const formUid = submission[FORM_UID_KEY];
+      if (matchedVillage && formUid && !isExcluded) {
+        matchedVillage.formCounts[formUid] = (matchedVillage.formCounts[formUid] ?? 0) + 1;
+      }
+
+      // Listing and supplementary forms only feed the per-form counts
+      if (!countsTowardTarget(submission)) return;
+
+      const { lat, lon, altitude, accuracy } = extractGpsCoordinates(submission, mapping.gpsKeys);
+      const hasValidGps = lat !== null && lon !== null;
+      const enumeratorInfo = extractEnumeratorInfo(submission, mapping);
+      const ref: SubmissionRef | null = recordKey
+        ? {
+            recordKey,
+            submissionId: typeof submission._id === 'number' ? submission._id : null,
+            uuid: submission._uuid ? String(submission._uuid) : null,
+            formUid: submission[FORM_UID_KEY] ?? null,
+            enumeratorId: enumeratorInfo?.id ?? null,
+            enumeratorName: enumeratorInfo?.name ?? null,
+            district: districtKey,
+            village: villageKey,
+            submittedAt: latest,
+          }
+        : null;
+
+      // Excluded records stay in duplicate detection so the supervisor can see and restore them
+      if (ref) {
+        const instanceId = String(submission['meta/instanceID'] ?? submission._uuid ?? '').replace(/^uuid:/, '');
+        duplicateCandidates.push({
+          ...ref,
+          instanceId: instanceId || null,
+          lat,
+          lon,
+          answers: extractAnswerValues(submission, identityPaths),
+        });
+      }
+
+      if (isExcluded) return;
+
+      // Evaluated once and shared by missingness and the fill rate
+      const answerStates = compiledSchema ? compiledSchema.answerStates(submission) : null;
+      missingnessTally.add(
+        submission,
+        matchedVillage ? villageIndexKey(districtKey, villageKey) : null,
+        enumeratorInfo?.id ?? null,
+        answerStates ?? undefined
+      );
+      if (ref) {
+        ruleEvaluator.add(submission, ref);
+      }
+
+      const rawFill =
+        compiledSchema && answerStates
+          ? computeRequiredFillRate(compiledSchema, answerStates)
+          : computeFieldFillRate(submission);
+      const fill = rawFill !== null && !Number.isNaN(rawFill) ? rawFill : null;
+
+      const duration = extractInterviewDuration(submission);
+      if (duration !== null && ref) {
+        timings.push({
+          ...ref,
+          durationMinutes: duration,
+          answeredFields: countAnsweredFields(submission),
+        });
+      }
+
+      if (enumeratorInfo) {
+        bumpEnumerator(enumerators, enumeratorInfo, hasValidGps, day);
+        if (day) {
+          recordEnumeratorDay(enumeratorInfo.id, day, submission, {
+            hasGps: hasValidGps,
+            fill,
+            villageIndex: villageKey ? villageIndexKey(districtKey, villageKey) : null,
+          });
+        }
+      }
+
+      if (!matchedVillage) return;
+
+      matchedVillage.actual++;
+      if (matchedVillage.quotas) {
+        const quota = matchStratum(submission, matchedVillage.quotas);
+        if (quota) {
+          quota.actual += 1;
+        } else {
+          matchedVillage.outsideQuotas = (matchedVillage.outsideQuotas ?? 0) + 1;
+        }
+      }
+      if (hasValidGps) {
+        matchedVillage.households.push({
+          lat: lat as number,
+          lon: lon as number,
+          altitude,
+          accuracy,
+          recordKey,
+          data: submission,
+          enumeratorId: enumeratorInfo?.id,
+          enumeratorName: enumeratorInfo?.name,
+        });
+        if (ref) {
+          locationCandidates.push({ ...ref, lat: lat as number, lon: lon as number, accuracy });
+        }
+      }
+
+      const indexKey = villageIndexKey(districtKey, villageKey);
+      const entry = villages.get(indexKey) ?? {
+        submissionCount: 0,
+        latestSubmission: null,
+        fillRateTotal: 0,
+        fillRateCount: 0,
+        enumerators: new Map<string, EnumeratorCounts>(),
+        dailyCounts: {},
+      };
+      villages.set(indexKey, entry);
+
+      entry.submissionCount += 1;
+
+      if (latest && (!entry.latestSubmission || latest > entry.latestSubmission)) {
+        entry.latestSubmission = latest;
+      }
+      if (day) {
+        entry.dailyCounts[day] = (entry.dailyCounts[day] ?? 0) + 1;
+      }
+
+      if (fill !== null) {
+        entry.fillRateTotal += fill;
+        entry.fillRateCount += 1;
+      }
+
+      if (enumeratorInfo) {
+        bumpEnumerator(entry.enumerators, enumeratorInfo, hasValidGps, day);
+      }
+    });
+  };
+
+  const snapshot = (total: number): AggregationResult => {
+    // Colors follow the sorted set of all enumerator ids so they stay stable between views
+    const allEnumeratorIds = Array.from(enumerators.keys());
+    const withColor = (info: EnumeratorCounts): EnumeratorInfo => ({
+      ...info,
+      color: getEnumeratorColor(info.id, allEnumeratorIds),
+    });
+
+    Object.values(targets).forEach((district) => {
+      Object.values(district).forEach((village) => {
+        village.percentage = Math.min(100, Math.round((village.actual / village.expected) * 100));
+        village.quotas?.forEach((quota) => {
+          quota.percentage = Math.min(100, Math.round((quota.actual / quota.expected) * 100));
+        });
+      });
+    });
+
+    const villageResults: Record<string, VillageAggregate> = {};
+    villages.forEach((entry, key) => {
+      villageResults[key] = {
+        ...entry,
+        enumerators: Array.from(entry.enumerators.values()).map(withColor),
+      };
+    });
+
+    // Progress snapshots are structured-cloned to the page after every chunk; copying each raw
+    // submission every time would make the total clone cost grow with the square of the dataset
+    const villageTargets =
+      processed >= total
+        ? targets
+        : Object.fromEntries(
+            Object.entries(targets).map(([districtKey, villages]) => [
+              districtKey,
+              Object.fromEntries(
+                Object.entries(villages).map(([villageKey, village]) => [
+                  villageKey,
+                  { ...village, households: village.households.map((household) => ({ ...household, data: null })) },
+                ])
+              ),
+            ])
+          );
+
+    return {
+      villageTargets,
+      enumerators: Array.from(enumerators.values()).map(withColor),
+      villages: villageResults,
+      unmatched: Array.from(unmatched.values()).sort((a, b) => b.submissionCount - a.submissionCount),
+      enumeratorDays: Object.fromEntries(
+        Array.from(enumeratorDays.entries()).map(([enumeratorId, days]) => [
+          enumeratorId,
+          Object.fromEntries(
+            Array.from(days.entries()).map(([day, stats]) => [
+              day,
+              { ...stats, durations: [...stats.durations], villages: Array.from(stats.villages) },
+            ])
+          ),
+        ])
+      ),
+      // Speeding needs every interview for the enumerators' medians; pairwise checks are too slow to repeat
+      // on every progress snapshot
+      speeding: processed >= total ? detectSpeeding(timings) : [],
+      duplicates: processed >= total ? detectDuplicates(duplicateCandidates) : { groups: [], skippedVillages: [] },
+      // Cluster-derived areas need every fix in the village
+      locationMismatches: processed >= total ? detectLocationMismatches(targets, locationCandidates) : [],
+      missingness: missingnessTally.snapshot(),
+      ruleResults: ruleEvaluator.snapshot(),
+      processed,
+      total,
+    };
+  };
+
+  return { add, snapshot };
+}
+
+/**
+ * Synchronous fallback for environments without Web Worker support
+ */
+export function runAggregation({
+  targets,
+  submissions,
+  mapping,
+  formSchema,
+  aliases,
+  excluded,
+  rules,
+}: AggregationRequest): AggregationResult {
+  const aggregator = createAggregator(targets, { mapping, formSchema, aliases, excluded, rules });
+  aggregator.add(submissions);
+  return aggregator.snapshot(submissions.length);
+}
@@ -0,0 +1,33 @@
+import { createAggregator, type AggregationMessage, type AggregationRequest } from '@/lib/aggregation';
+
+// Post a snapshot after every chunk so large datasets fill in progressively. Only the final
+// message carries the raw submissions behind each household.
+const CHUNK_SIZE = 1000;
+
+const workerScope = self as unknown as Worker;
+
+workerScope.addEventListener('message', (event: MessageEvent<AggregationRequest>) => {
+  const { requestId, targets, submissions, mapping, formSchema, aliases, excluded, rules } = event.data;
+  const aggregator = createAggregator(targets, { mapping, formSchema, aliases, excluded, rules });
+
+  for (let start = 0; start < submissions.length; start += CHUNK_SIZE) {
+    aggregator.add(submissions.slice(start, start + CHUNK_SIZE));
+
+    const isLast = start + CHUNK_SIZE >= submissions.length;
+    if (!isLast) {
+      const message: AggregationMessage = {
+        type: 'progress',
+        requestId,
+        result: aggregator.snapshot(submissions.length),
+      };
+      workerScope.postMessage(message);
+    }
+  }
+
+  const message: AggregationMessage = {
+    type: 'done',
+    requestId,
+    result: aggregator.snapshot(submissions.length),
+  };
+  workerScope.postMessage(message);
+});
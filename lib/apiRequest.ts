@@ -0,0 +1,25 @@
+// Failed call to one of the dashboard's own API routes, keeping the status so callers can react to 401/403
+export class ApiRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/**
+ * Parse a JSON response, throwing ApiRequestError with the route's `error` message on non-2xx
+ */
+export async function readApiResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = `API Error: ${response.status} ${response.statusText}`;
+    try {
+      const errorBody = await response.json();
+      message = errorBody.error || message;
+    } catch {
+      // Non-JSON error body; keep the status line
+    }
+    throw new ApiRequestError(message, response.status);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,99 @@
+import type { BurndownPoint, PaceAssessment, PaceStatus } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Within 10% of the planned count still counts as on track
+const PACE_TOLERANCE = 0.1;
+
+export interface BurndownInput {
+  expected: number;
+  optimalDays: number;
+  dailyCounts: Record<string, number>;
+}
+
+// Submissions are bucketed by UTC day (YYYY-MM-DD); day numbers count days since the epoch
+export const toDay = (date: Date) => date.toISOString().slice(0, 10);
+export const dayNumber = (day: string) => Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+export const fromDayNumber = (value: number) => toDay(new Date(value * DAY_MS));
+
+export const firstDay = (dailyCounts: Record<string, number>): string | null => {
+  const days = Object.keys(dailyCounts).sort();
+  return days[0] ?? null;
+};
+
+// Fieldwork has no fixed start date in the targets CSV, so each village's plan starts on
+// the day of its first submission and spreads `expected` evenly over `optimalDays`
+const plannedBy = (input: BurndownInput, day: number): number | null => {
+  const start = firstDay(input.dailyCounts);
+  if (!start || input.optimalDays <= 0) return null;
+  const elapsed = day - dayNumber(start) + 1;
+  if (elapsed <= 0) return 0;
+  return Math.min(input.expected, (input.expected * elapsed) / input.optimalDays);
+};
+
+/**
+ * Cumulative submissions per day with the planned pace overlaid. Pass one input for a
+ * village or several to roll a district up.
+ */
+export function buildBurndownSeries(inputs: BurndownInput[], today: Date = new Date()): BurndownPoint[] {
+  const starts = inputs.map((input) => firstDay(input.dailyCounts)).filter((day): day is string => Boolean(day));
+  if (starts.length === 0) return [];
+
+  const totals: Record<string, number> = {};
+  inputs.forEach((input) => {
+    Object.entries(input.dailyCounts).forEach(([day, count]) => {
+      totals[day] = (totals[day] ?? 0) + count;
+    });
+  });
+
+  const first = Math.min(...starts.map(dayNumber));
+  const last = Math.max(dayNumber(toDay(today)), ...Object.keys(totals).map(dayNumber));
+  const hasPlan = inputs.some((input) => input.optimalDays > 0);
+
+  const points: BurndownPoint[] = [];
+  let cumulative = 0;
+  for (let day = first; day <= last; day++) {
+    const date = fromDayNumber(day);
+    cumulative += totals[date] ?? 0;
+
+    let ideal: number | null = null;
+    if (hasPlan) {
+      ideal = inputs.reduce((sum, input) => sum + (plannedBy(input, day) ?? 0), 0);
+      ideal = Math.round(ideal * 10) / 10;
+    }
+
+    points.push({ date, actual: cumulative, ideal });
+  }
+
+  return points;
+}
+
+/**
+ * Compare submissions so far against the planned pace as of today
+ */
+export function assessPace(inputs: BurndownInput[], today: Date = new Date()): PaceAssessment {
+  const todayNumber = dayNumber(toDay(today));
+  const expected = inputs.reduce((sum, input) => sum + input.expected, 0);
+  const actual = inputs.reduce(
+    (sum, input) => sum + Object.values(input.dailyCounts).reduce((total, count) => total + count, 0),
+    0
+  );
+  const optimalDays = Math.max(0, ...inputs.map((input) => input.optimalDays));
+  const starts = inputs.map((input) => firstDay(input.dailyCounts)).filter((day): day is string => Boolean(day));
+  const elapsedDays = starts.length > 0 ? todayNumber - Math.min(...starts.map(dayNumber)) + 1 : 0;
+  const planned = Math.round(inputs.reduce((sum, input) => sum + (plannedBy(input, todayNumber) ?? 0), 0));
+
+  let status: PaceStatus;
+  if (starts.length === 0) {
+    status = 'not-started';
+  } else if (optimalDays <= 0) {
+    status = 'no-plan';
+  } else if (actual >= planned * (1 + PACE_TOLERANCE)) {
+    status = 'ahead';
+  } else if (actual < planned * (1 - PACE_TOLERANCE)) {
+    status = 'behind';
+  } else {
+    status = 'on-track';
+  }
+
+  return { status, actual, planned, expected, elapsedDays, optimalDays };
+}
@@ -0,0 +1,75 @@
+import type { KoBoSubmission, ValidationStatus } from '@/types';
+
+// Shared contract for submission back-ends. Adapters normalize whatever their server returns
+// into the KoBoSubmission shape so the extractors and village matching stay source-agnostic.
+
+export type DataSourceType = 'kobo' | 'odk-central';
+
+export interface FetchSubmissionsOptions {
+  /**
+   * Only return submissions received at or after this `_submission_time` watermark
+   */
+  since?: string | null;
+}
+
+// Identifies a submission on either back-end: KoBo writes by numeric _id, ODK Central by instance uuid
+export interface SubmissionIdentity {
+  id: number | null;
+  uuid: string | null;
+}
+
+export interface SubmissionSource {
+  type: DataSourceType;
+  fetchSubmissions(
+    formId: string,
+    options?: FetchSubmissionsOptions
+  ): Promise<{ count: number; results: KoBoSubmission[] }>;
+  /**
+   * Current validation state of every submission in a form, as records holding only their identity
+   * and status fields. Status changes don't move `_submission_time`, so incremental syncs re-read these.
+   */
+  fetchValidationStatuses(formId: string): Promise<KoBoSubmission[]>;
+  setValidationStatus(formId: string, submissions: SubmissionIdentity[], status: ValidationStatus): Promise<void>;
+  /**
+   * Raw attachment response; `attachment` is the KoBo attachment id or the ODK Central file name.
+   * A `range` header is forwarded as-is so audio and video can seek (the response is then a 206).
+   */
+  fetchAttachment(
+    formId: string,
+    submission: SubmissionIdentity,
+    attachment: string,
+    range?: string | null
+  ): Promise<Response>;
+}
+
+export class DataSourceApiError extends Error {
+  status: number;
+  details: unknown;
+  requestUrl: string;
+
+  constructor(message: string, status: number, details: unknown, requestUrl: string) {
+    super(message);
+    this.name = 'DataSourceApiError';
+    this.status = status;
+    this.details = details;
+    this.requestUrl = requestUrl;
+  }
+}
+
+export async function readErrorDetails(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type');
+
+  if (contentType?.includes('application/json')) {
+    try {
+      return await response.json();
+    } catch (parseError) {
+      return `Unable to parse JSON error: ${String(parseError)}`;
+    }
+  }
+
+  try {
+    return await response.text();
+  } catch (textError) {
+    return `Unable to read error response: ${String(textError)}`;
+  }
+}
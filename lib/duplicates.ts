@@ -0,0 +1,115 @@
+import type {
+  DuplicateCandidate,
+  DuplicateGroup,
+  DuplicateReport,
+  SkippedSimilarityVillage,
+  SubmissionRef,
+} from '@/types';
+import { getDistance } from '@/lib/geo';
+
+// Consumer GPS drifts a few metres; two interviews closer than this are likely the same house
+export const NEARBY_DISTANCE_METERS = 5;
+// Share of answered questions with identical answers
+export const SIMILAR_ANSWER_THRESHOLD = 0.9;
+// Short records match each other by chance
+const MIN_ANSWERS_FOR_SIMILARITY = 10;
+// Pairwise answer comparison is quadratic; skip it for villages larger than this
+export const MAX_SIMILARITY_GROUP = 2000;
+// ~NEARBY_DISTANCE_METERS of latitude, used to prune the sweep before measuring
+const NEARBY_LAT_DEGREES = NEARBY_DISTANCE_METERS / 111_000;
+
+const toRef = ({ instanceId, lat, lon, answers, ...ref }: DuplicateCandidate): SubmissionRef => ref;
+
+const groupBy = <T>(items: T[], keyOf: (item: T) => string | null): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    if (key === null) return;
+    const group = groups.get(key) ?? [];
+    group.push(item);
+    groups.set(key, group);
+  });
+  return groups;
+};
+
+/**
+ * Share of the union of answered fields on which both submissions gave the same answer
+ */
+export function answerSimilarity(a: Record<string, string>, b: Record<string, string>): number {
+  const paths = new Set([...Object.keys(a), ...Object.keys(b)]);
+  if (paths.size === 0) return 0;
+  let same = 0;
+  paths.forEach((path) => {
+    if (a[path] !== undefined && a[path] === b[path]) same += 1;
+  });
+  return same / paths.size;
+}
+
+/**
+ * Find submissions that likely record the same household twice: a repeated instance id,
+ * two interviews by one enumerator a few metres apart, or near-identical answers in a village.
+ * Villages too large for the answer comparison are listed in `skippedVillages`.
+ */
+export function detectDuplicates(candidates: DuplicateCandidate[]): DuplicateReport {
+  const groups: DuplicateGroup[] = [];
+  const skippedVillages: SkippedSimilarityVillage[] = [];
+
+  groupBy(candidates, (candidate) => candidate.instanceId).forEach((members, instanceId) => {
+    if (members.length < 2) return;
+    groups.push({ key: `same-instance:${instanceId}`, reason: 'same-instance', members: members.map(toRef), score: null });
+  });
+
+  // Sweep each enumerator's points in latitude order so only near neighbours are measured
+  groupBy(candidates, (candidate) =>
+    candidate.enumeratorId && candidate.lat !== null && candidate.lon !== null ? candidate.enumeratorId : null
+  ).forEach((members) => {
+    const sorted = [...members].sort((a, b) => (a.lat as number) - (b.lat as number));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const a = sorted[i];
+        const b = sorted[j];
+        if ((b.lat as number) - (a.lat as number) > NEARBY_LAT_DEGREES) break;
+        if (a.instanceId && a.instanceId === b.instanceId) continue;
+        const distance = getDistance(a.lat as number, a.lon as number, b.lat as number, b.lon as number);
+        if (distance <= NEARBY_DISTANCE_METERS) {
+          groups.push({
+            key: `nearby:${a.recordKey}|${b.recordKey}`,
+            reason: 'nearby',
+            members: [toRef(a), toRef(b)],
+            score: Math.round(distance * 10) / 10,
+          });
+        }
+      }
+    }
+  });
+
+  groupBy(candidates, (candidate) =>
+    Object.keys(candidate.answers).length >= MIN_ANSWERS_FOR_SIMILARITY
+      ? `${candidate.district}|${candidate.village}`
+      : null
+  ).forEach((members) => {
+    if (members.length > MAX_SIMILARITY_GROUP) {
+      const { district, village } = members[0];
+      skippedVillages.push({ district, village, submissionCount: members.length });
+      return;
+    }
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i];
+        const b = members[j];
+        if (a.instanceId && a.instanceId === b.instanceId) continue;
+        const similarity = answerSimilarity(a.answers, b.answers);
+        if (similarity >= SIMILAR_ANSWER_THRESHOLD) {
+          groups.push({
+            key: `similar-answers:${a.recordKey}|${b.recordKey}`,
+            reason: 'similar-answers',
+            members: [toRef(a), toRef(b)],
+            score: Math.round(similarity * 100) / 100,
+          });
+        }
+      }
+    }
+  });
+
+  return { groups, skippedVillages };
+}
@@ -1,3 +1,6 @@
+import type { FieldMapping } from '@/types';
+import { compileEnumeratorPattern, DEFAULT_FIELD_MAPPING } from '@/lib/fieldMapping';
+
 // Generate consistent colors for enumerators
 const ENUMERATOR_COLORS = [
   '#3B82F6', // Blue
@@ -33,34 +36,22 @@ export function getEnumeratorColor(enumeratorId: string, allEnumeratorIds: strin
   return ENUMERATOR_COLORS[index % ENUMERATOR_COLORS.length];
 }
 
-export function extractEnumeratorInfo(submission: any): { id: string; name: string } | null {
-  // Helper function to validate enumerator code format (E followed by number)
+export function extractEnumeratorInfo(
+  submission: any,
+  mapping: FieldMapping = DEFAULT_FIELD_MAPPING
+): { id: string; name: string } | null {
+  const codePattern = compileEnumeratorPattern(mapping.enumeratorCodePattern);
+
+  // Helper function to validate enumerator code format (E1, E2, E10, ... by default)
   const isValidEnumeratorCode = (value: any): boolean => {
     if (!value) return false;
     const str = String(value).trim();
-    return /^E\d+$/i.test(str); // Matches E1, E2, E10, etc. (case insensitive)
+    return codePattern.test(str);
   };
 
-  // List of possible field names to check (prioritize the actual KoBoToolbox fields)
-  const possibleFields = [
-    'grp_general/enumerator_id',        // The actual field in KoBoToolbox
-    'grp_general/Enumerator Code',
-    'grp_general/enumerator_code',
-    'grp_general_enumerator_id',
-    'Enumerator Code',
-    'enumerator_code',
-    'enumeratorCode',
-    'enumerator_id',
-    '_enumerator_id',
-    'enum_id',
-    'enumid',
-    'interviewer_id',
-    'interviewerId',
-  ];
-
-  // Find the first field that contains a valid E-code
+  // Find the first configured field that contains a valid code
   let enumeratorCode = null;
-  for (const fieldName of possibleFields) {
+  for (const fieldName of mapping.enumeratorKeys) {
     const value = submission[fieldName];
     if (isValidEnumeratorCode(value)) {
       enumeratorCode = String(value).trim().toUpperCase(); // Normalize to uppercase
@@ -68,27 +59,13 @@ export function extractEnumeratorInfo(submission: any): { id: string; name: stri
     }
   }
 
-  // If no valid E-code found, return null
+  // If no valid code found, return null
   if (!enumeratorCode) {
     return null;
   }
 
-  // Try to find enumerator name (optional) - prioritize the actual KoBoToolbox field
-  const enumeratorName =
-    submission['grp_general/enumerator_name'] ||  // The actual field in KoBoToolbox
-    submission['grp_general/Enumerator Name'] ||
-    submission['Enumerator Name'] ||
-    submission['enumerator_name'] ||
-    submission.enumerator_name ||
-    submission.enumeratorName ||
-    submission._enumerator_name ||
-    submission.enum_name ||
-    submission.enumname ||
-    submission.interviewer_name ||
-    submission.interviewerName;
-
   return {
     id: enumeratorCode,
-    name: enumeratorCode, // Use the E-code (E1, E2, etc.) as the display name
+    name: enumeratorCode, // Use the code (E1, E2, etc.) as the display name
   };
 }
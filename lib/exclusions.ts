@@ -0,0 +1,60 @@
+import { readApiResponse } from '@/lib/apiRequest';
+
+// Record keys (getRecordKey) a supervisor has excluded from target counts, stored per project.
+// Shared through /api/exclusions when Supabase is configured; this browser's copy is the fallback.
+const storageKey = (projectId: string) => `excludedSubmissions:${projectId}`;
+
+export function loadExcludedSubmissions(projectId: string): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch (error) {
+    console.warn('Failed to read excluded submissions:', error);
+    return [];
+  }
+}
+
+export function saveExcludedSubmissions(projectId: string, recordKeys: string[]): void {
+  localStorage.setItem(storageKey(projectId), JSON.stringify(recordKeys));
+}
+
+/**
+ * The project's shared exclusions; null when the server doesn't store them (e.g. Supabase isn't configured)
+ */
+export async function loadSharedExclusions(projectId: string): Promise<string[] | null> {
+  try {
+    const response = await fetch(`/api/exclusions?projectId=${encodeURIComponent(projectId)}`, {
+      headers: { 'Accept': 'application/json' },
+    });
+    const data = await readApiResponse<{ recordKeys: string[] }>(response);
+    return data.recordKeys;
+  } catch (error) {
+    console.warn('Shared exclusions unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Exclude or restore one record on the server, returning the project's updated exclusions
+ */
+export async function saveSharedExclusion(
+  projectId: string,
+  secret: string,
+  recordKey: string,
+  excluded: boolean
+): Promise<string[]> {
+  const response = await fetch('/api/exclusions', {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'X-Review-Secret': secret,
+    },
+    body: JSON.stringify({ projectId, recordKey, excluded }),
+  });
+  const data = await readApiResponse<{ recordKeys: string[] }>(response);
+  return data.recordKeys;
+}
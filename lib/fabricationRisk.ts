@@ -0,0 +1,322 @@
+import type {
+  EnumeratorInfo,
+  EnumeratorRisk,
+  FieldMapping,
+  FormSchema,
+  KoBoSubmission,
+  RiskIndicator,
+  RiskIndicatorKind,
+} from '@/types';
+import { extractEnumeratorInfo } from '@/lib/enumeratorColors';
+import { getDistance } from '@/lib/geo';
+import { isRejected } from '@/lib/validationStatus';
+import {
+  countsTowardTarget,
+  extractAnswerValues,
+  extractGpsCoordinates,
+  extractInterviewWindow,
+  extractLatestTimestamp,
+  getRecordKey,
+} from '@/lib/submissions';
+
+// Fewer interviews than this give every indicator too much noise to act on
+export const MIN_RISK_INTERVIEWS = 10;
+// Answer spread below this share of the team's on the same questions
+export const LOW_VARIANCE_RATIO = 0.6;
+// "Don't know" rate at least this multiple of the team's (and at least MIN_DONT_KNOW_RATE)
+export const DONT_KNOW_MULTIPLE = 2;
+const MIN_DONT_KNOW_RATE = 0.05;
+// Chi-square critical value for a uniform last digit (9 degrees of freedom) at p = 0.01
+const DIGIT_CHI_SQUARE_CRITICAL = 21.67;
+const MIN_NUMERIC_ANSWERS = 50;
+// Consecutive interviews this close in space and time look like they were filled in one sitting
+export const CLUSTER_RADIUS_METERS = 25;
+export const CLUSTER_WINDOW_MINUTES = 120;
+const MIN_CLUSTER_SIZE = 3;
+const MIN_CLUSTER_SHARE = 0.1;
+
+// Single-choice questions without a schema: fields with a handful of distinct answers
+const MAX_CATEGORY_VALUES = 12;
+const MIN_CATEGORY_ANSWERS = 5;
+const MIN_VARIANCE_QUESTIONS = 3;
+
+const DONT_KNOW_VALUES = new Set([
+  'dk',
+  'dont_know',
+  'don_t_know',
+  'dontknow',
+  "don't know",
+  'do_not_know',
+  'do not know',
+  'not_sure',
+  '-88',
+  '-99',
+  '-888',
+  '-999',
+]);
+
+// Device and form metadata the phone fills in, matched on the last path segment
+const METADATA_FIELDS = new Set([
+  'start',
+  'end',
+  'today',
+  'deviceid',
+  'subscriberid',
+  'simserial',
+  'phonenumber',
+  'username',
+  'email',
+  'audit',
+  'instanceid',
+  'instancename',
+]);
+
+type Tally = Map<string, Map<string, number>>;
+
+interface EnumeratorSample {
+  submissions: number;
+  answers: Tally;
+  answered: number;
+  dontKnow: number;
+  // Counts of each last digit across numeric answers
+  digits: number[];
+  fixes: Array<{ time: number; lat: number; lon: number }>;
+}
+
+const newSample = (): EnumeratorSample => ({
+  submissions: 0,
+  answers: new Map(),
+  answered: 0,
+  dontKnow: 0,
+  digits: new Array(10).fill(0),
+  fixes: [],
+});
+
+const bumpTally = (tally: Tally, path: string, value: string) => {
+  const counts = tally.get(path) ?? new Map<string, number>();
+  tally.set(path, counts);
+  counts.set(value, (counts.get(value) ?? 0) + 1);
+};
+
+const entropy = (counts: Map<string, number>): number => {
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  return Array.from(counts.values()).reduce((sum, count) => {
+    const share = count / total;
+    return sum - share * Math.log(share);
+  }, 0);
+};
+
+const digitChiSquare = (digits: number[]): number => {
+  const total = digits.reduce((sum, count) => sum + count, 0);
+  const expected = total / 10;
+  return digits.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+};
+
+const roundShare = (digits: number[]) =>
+  (digits[0] + digits[5]) / Math.max(1, digits.reduce((sum, count) => sum + count, 0));
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// 0.5 at the threshold, rising to 1 as progress reaches 1
+const ramp = (progress: number) => 0.5 + 0.5 * Math.min(1, Math.max(0, progress));
+
+const notEvaluated = (kind: RiskIndicatorKind, detail: string): RiskIndicator => ({
+  kind,
+  fired: false,
+  strength: 0,
+  detail,
+});
+
+// Interviews in runs of MIN_CLUSTER_SIZE+ consecutive fixes near the run's first fix
+const countClusteredInterviews = (fixes: EnumeratorSample['fixes']): number => {
+  const sorted = [...fixes].sort((a, b) => a.time - b.time);
+  let clustered = 0;
+  let run: typeof sorted = [];
+
+  const closeRun = () => {
+    if (run.length >= MIN_CLUSTER_SIZE) clustered += run.length;
+  };
+
+  sorted.forEach((fix) => {
+    const anchor = run[0];
+    const previous = run[run.length - 1];
+    if (
+      anchor &&
+      fix.time - previous.time <= CLUSTER_WINDOW_MINUTES * 60000 &&
+      getDistance(anchor.lat, anchor.lon, fix.lat, fix.lon) <= CLUSTER_RADIUS_METERS
+    ) {
+      run.push(fix);
+      return;
+    }
+    closeRun();
+    run = [fix];
+  });
+  closeRun();
+
+  return clustered;
+};
+
+/**
+ * Rank enumerators by signs of fabricated interviews: unusually uniform answers, excessive
+ * "don't know", last-digit preference in numbers, and runs of interviews recorded at one spot.
+ * Each indicator explains what it found, or why it couldn't be evaluated.
+ */
+export function scoreFabricationRisk(
+  submissions: KoBoSubmission[],
+  enumerators: EnumeratorInfo[],
+  { mapping, formSchema, excluded }: { mapping: FieldMapping; formSchema: FormSchema | null; excluded: string[] }
+): EnumeratorRisk[] {
+  const excludedKeys = new Set(excluded);
+  const schemaTypes = formSchema
+    ? new Map(formSchema.questions.map((question) => [question.path, question.type]))
+    : null;
+  // Who/where fields are constant per enumerator by design, so they'd read as zero spread
+  const identityPaths = new Set([...mapping.enumeratorKeys, ...mapping.districtKeys, ...mapping.villageKeys]);
+  const samples = new Map<string, EnumeratorSample>();
+  const team = newSample();
+
+  submissions.forEach((submission) => {
+    if (!countsTowardTarget(submission)) return;
+    const recordKey = getRecordKey(submission);
+    if ((recordKey && excludedKeys.has(recordKey)) || isRejected(submission)) return;
+    const enumerator = extractEnumeratorInfo(submission, mapping);
+    if (!enumerator) return;
+
+    const sample = samples.get(enumerator.id) ?? newSample();
+    samples.set(enumerator.id, sample);
+    sample.submissions += 1;
+
+    Object.entries(extractAnswerValues(submission)).forEach(([path, value]) => {
+      if (identityPaths.has(path) || METADATA_FIELDS.has(path.split('/').pop()!.toLowerCase())) return;
+      [sample, team].forEach((target) => {
+        target.answered += 1;
+        if (DONT_KNOW_VALUES.has(value)) target.dontKnow += 1;
+      });
+
+      const type = schemaTypes?.get(path);
+      const isNumeric = schemaTypes ? type === 'integer' || type === 'decimal' : /^\d+$/.test(value);
+      const integer = Math.trunc(Number(value));
+      // Single digits say nothing about rounding; phone numbers and ids aren't measurements
+      if (isNumeric && integer >= 10 && integer < 100000) {
+        const digit = integer % 10;
+        sample.digits[digit] += 1;
+        team.digits[digit] += 1;
+      }
+
+      if (!schemaTypes || type === 'select_one') {
+        bumpTally(sample.answers, path, value);
+        bumpTally(team.answers, path, value);
+      }
+    });
+
+    const { lat, lon } = extractGpsCoordinates(submission, mapping.gpsKeys);
+    const time =
+      extractInterviewWindow(submission).end ?? extractLatestTimestamp(submission, mapping.timestampKeys);
+    if (lat !== null && lon !== null && time) {
+      sample.fixes.push({ time: time.getTime(), lat, lon });
+    }
+  });
+
+  const categoryPaths = Array.from(team.answers.entries())
+    .filter(([, counts]) => counts.size >= 2 && (schemaTypes !== null || counts.size <= MAX_CATEGORY_VALUES))
+    .map(([path, counts]) => ({ path, teamEntropy: entropy(counts) }));
+  const teamDontKnowRate = team.answered > 0 ? team.dontKnow / team.answered : 0;
+  const teamDigitTotal = team.digits.reduce((sum, count) => sum + count, 0);
+  const teamDigitEffect = teamDigitTotal > 0 ? digitChiSquare(team.digits) / teamDigitTotal : 0;
+
+  const lowVariance = (sample: EnumeratorSample): RiskIndicator => {
+    const ratios = categoryPaths
+      .filter(({ path }) => {
+        const counts = sample.answers.get(path);
+        return counts && Array.from(counts.values()).reduce((sum, count) => sum + count, 0) >= MIN_CATEGORY_ANSWERS;
+      })
+      .map(({ path, teamEntropy }) => entropy(sample.answers.get(path) as Map<string, number>) / teamEntropy);
+    if (ratios.length < MIN_VARIANCE_QUESTIONS) {
+      return notEvaluated('low-variance', 'Too few comparable single-choice questions');
+    }
+
+    const ratio = ratios.reduce((sum, value) => sum + value, 0) / ratios.length;
+    const fired = ratio < LOW_VARIANCE_RATIO;
+    return {
+      kind: 'low-variance',
+      fired,
+      strength: fired ? ramp((LOW_VARIANCE_RATIO - ratio) / LOW_VARIANCE_RATIO) : 0,
+      detail: `Answer spread is ${percent(ratio)} of the team's across ${ratios.length} questions`,
+    };
+  };
+
+  const dontKnow = (sample: EnumeratorSample): RiskIndicator => {
+    if (sample.answered === 0) return notEvaluated('dont-know', 'No answers recorded');
+
+    const rate = sample.dontKnow / sample.answered;
+    const multiple = teamDontKnowRate > 0 ? rate / teamDontKnowRate : 0;
+    const fired = rate >= MIN_DONT_KNOW_RATE && multiple >= DONT_KNOW_MULTIPLE;
+    return {
+      kind: 'dont-know',
+      fired,
+      strength: fired ? ramp((multiple - DONT_KNOW_MULTIPLE) / 4) : 0,
+      detail: `${percent(rate)} of answers are "don't know" (team ${percent(teamDontKnowRate)})`,
+    };
+  };
+
+  const digitPreference = (sample: EnumeratorSample): RiskIndicator => {
+    const total = sample.digits.reduce((sum, count) => sum + count, 0);
+    if (total < MIN_NUMERIC_ANSWERS) {
+      return notEvaluated('digit-preference', `Fewer than ${MIN_NUMERIC_ANSWERS} numeric answers`);
+    }
+
+    const chiSquare = digitChiSquare(sample.digits);
+    const multiple = teamDigitEffect > 0 ? chiSquare / total / teamDigitEffect : 0;
+    // Rounding every enumerator shares (ages, prices) shows up team-wide and isn't flagged
+    const fired = chiSquare > DIGIT_CHI_SQUARE_CRITICAL && multiple >= 2;
+    return {
+      kind: 'digit-preference',
+      fired,
+      strength: fired ? ramp((multiple - 2) / 4) : 0,
+      detail: `${percent(roundShare(sample.digits))} of ${total} numbers end in 0 or 5 (team ${percent(
+        roundShare(team.digits)
+      )})`,
+    };
+  };
+
+  const timeLocationCluster = (sample: EnumeratorSample): RiskIndicator => {
+    if (sample.fixes.length < MIN_CLUSTER_SIZE) {
+      return notEvaluated('time-location-cluster', 'Too few timed GPS fixes');
+    }
+
+    const clustered = countClusteredInterviews(sample.fixes);
+    const share = clustered / sample.fixes.length;
+    const fired = clustered >= MIN_CLUSTER_SIZE && share >= MIN_CLUSTER_SHARE;
+    return {
+      kind: 'time-location-cluster',
+      fired,
+      strength: fired ? ramp(share / 0.5) : 0,
+      detail: `${clustered} of ${sample.fixes.length} interviews recorded in runs within ${CLUSTER_RADIUS_METERS} m of each other`,
+    };
+  };
+
+  return enumerators
+    .map((enumerator): EnumeratorRisk => {
+      const sample = samples.get(enumerator.id) ?? newSample();
+      const indicators =
+        sample.submissions < MIN_RISK_INTERVIEWS
+          ? (['low-variance', 'dont-know', 'digit-preference', 'time-location-cluster'] as RiskIndicatorKind[]).map(
+              (kind) => notEvaluated(kind, `Fewer than ${MIN_RISK_INTERVIEWS} interviews`)
+            )
+          : [lowVariance(sample), dontKnow(sample), digitPreference(sample), timeLocationCluster(sample)];
+
+      // Independent indicators combine like probabilities: two moderate flags outrank one
+      const clean = indicators.reduce((product, indicator) => product * (1 - indicator.strength), 1);
+
+      return {
+        enumeratorId: enumerator.id,
+        enumeratorName: enumerator.name,
+        color: enumerator.color,
+        submissions: sample.submissions,
+        score: Math.round((1 - clean) * 100),
+        indicators,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.submissions - a.submissions);
+}
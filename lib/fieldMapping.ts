@@ -0,0 +1,132 @@
+import type { FieldMapping, FieldMappingCheck, KoBoSubmission } from '@/types';
+
+export const DEFAULT_FIELD_MAPPING: FieldMapping = {
+  districtKeys: ['district', 'District', '_district', 'grp_general/landscape', 'landscape'],
+  villageKeys: ['village', 'Village', '_village', 'grp_general/village'],
+  timestampKeys: [
+    '_submission_time',
+    'end',
+    '_updated_at',
+    '_last_updated',
+    '__last_update',
+    'submission_time',
+    'start',
+    'meta/instanceID',
+  ],
+  gpsKeys: ['_gps', 'gps', '_geolocation'],
+  enumeratorKeys: [
+    'grp_general/enumerator_id',        // The actual field in KoBoToolbox
+    'grp_general/Enumerator Code',
+    'grp_general/enumerator_code',
+    'grp_general_enumerator_id',
+    'Enumerator Code',
+    'enumerator_code',
+    'enumeratorCode',
+    'enumerator_id',
+    '_enumerator_id',
+    'enum_id',
+    'enumid',
+    'interviewer_id',
+    'interviewerId',
+  ],
+  // Stratified designs point this at the form field behind the quotas, e.g. household head's sex
+  stratumKeys: [],
+  enumeratorCodePattern: '^E\\d+$',
+};
+
+const DEFAULT_ENUMERATOR_REGEX = new RegExp(DEFAULT_FIELD_MAPPING.enumeratorCodePattern, 'i');
+
+const storageKey = (projectId: string) => `fieldMapping:${projectId}`;
+
+/**
+ * Compile the configured enumerator pattern (case insensitive), falling back to E-codes if invalid
+ */
+export function compileEnumeratorPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return DEFAULT_ENUMERATOR_REGEX;
+  }
+}
+
+export function loadFieldMapping(projectId: string): FieldMapping {
+  if (typeof window === 'undefined') return DEFAULT_FIELD_MAPPING;
+
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    if (!stored) return DEFAULT_FIELD_MAPPING;
+    return { ...DEFAULT_FIELD_MAPPING, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn('Failed to read field mapping, using defaults:', error);
+    return DEFAULT_FIELD_MAPPING;
+  }
+}
+
+export function saveFieldMapping(projectId: string, mapping: FieldMapping): void {
+  localStorage.setItem(storageKey(projectId), JSON.stringify(mapping));
+}
+
+export function resetFieldMapping(projectId: string): void {
+  localStorage.removeItem(storageKey(projectId));
+}
+
+const FIELD_LABELS: Record<Exclude<keyof FieldMapping, 'enumeratorCodePattern'>, string> = {
+  districtKeys: 'District',
+  villageKeys: 'Village',
+  timestampKeys: 'Timestamp',
+  gpsKeys: 'GPS',
+  enumeratorKeys: 'Enumerator code',
+  stratumKeys: 'Quota stratum',
+};
+
+// Fields a project can leave unmapped; they're only checked once keys are configured
+const OPTIONAL_FIELDS = new Set<keyof FieldMapping>(['stratumKeys']);
+
+const hasValue = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+/**
+ * Check how many sample submissions each mapped field resolves for, and which keys did the work
+ */
+export function validateFieldMapping(
+  mapping: FieldMapping,
+  submissions: KoBoSubmission[]
+): FieldMappingCheck[] {
+  let patternError: string | undefined;
+  try {
+    new RegExp(mapping.enumeratorCodePattern, 'i');
+  } catch (error: any) {
+    patternError = `Invalid enumerator pattern: ${error.message}`;
+  }
+  const enumeratorPattern = compileEnumeratorPattern(mapping.enumeratorCodePattern);
+
+  const fields = (Object.keys(FIELD_LABELS) as Array<keyof typeof FIELD_LABELS>).filter(
+    (field) => !OPTIONAL_FIELDS.has(field) || mapping[field].length > 0
+  );
+
+  return fields.map((field) => {
+    const keys = mapping[field];
+    const matchedKeys = new Set<string>();
+    let matched = 0;
+
+    submissions.forEach((submission) => {
+      const key = keys.find((candidate) => {
+        const value = submission[candidate];
+        if (!hasValue(value)) return false;
+        return field === 'enumeratorKeys' ? enumeratorPattern.test(String(value).trim()) : true;
+      });
+      if (key) {
+        matched += 1;
+        matchedKeys.add(key);
+      }
+    });
+
+    return {
+      field,
+      label: FIELD_LABELS[field],
+      matched,
+      total: submissions.length,
+      matchedKeys: Array.from(matchedKeys),
+      error: field === 'enumeratorKeys' ? patternError : keys.length === 0 ? 'No keys configured' : undefined,
+    };
+  });
+}
@@ -0,0 +1,112 @@
+import type { CompletionForecast } from '@/types';
+import { dayNumber, firstDay, fromDayNumber, toDay } from '@/lib/burndown';
+
+// Recent days better reflect current team size and routes than the whole history
+const RATE_WINDOW_DAYS = 14;
+// ~80% two-sided interval
+const Z_SCORE = 1.28;
+// Projections further out than this are reported as open-ended
+const MAX_FORECAST_DAYS = 365;
+
+export interface DailyRate {
+  mean: number;
+  variance: number;
+  days: number;
+}
+
+/**
+ * Mean and variance of submissions per calendar day over the recent window, counting idle
+ * days as zero. Variance is floored at the mean since daily counts are roughly Poisson.
+ */
+export function estimateDailyRate(
+  dailyCounts: Record<string, number>,
+  today: Date = new Date(),
+  windowDays = RATE_WINDOW_DAYS
+): DailyRate {
+  const start = firstDay(dailyCounts);
+  if (!start) return { mean: 0, variance: 0, days: 0 };
+
+  const todayNumber = dayNumber(toDay(today));
+  const from = Math.max(dayNumber(start), todayNumber - windowDays + 1);
+  const counts: number[] = [];
+  for (let day = from; day <= todayNumber; day++) {
+    counts.push(dailyCounts[fromDayNumber(day)] ?? 0);
+  }
+  if (counts.length === 0) return { mean: 0, variance: 0, days: 0 };
+
+  const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+  const variance = counts.reduce((sum, count) => sum + (count - mean) ** 2, 0) / counts.length;
+  return { mean, variance: Math.max(variance, mean), days: counts.length };
+}
+
+/**
+ * Sum independent rates, e.g. enumerators working in parallel
+ */
+export const combineRates = (rates: DailyRate[]): DailyRate => ({
+  mean: rates.reduce((sum, rate) => sum + rate.mean, 0),
+  variance: rates.reduce((sum, rate) => sum + rate.variance, 0),
+  days: Math.max(0, ...rates.map((rate) => rate.days)),
+});
+
+const projectDate = (todayNumber: number, remaining: number, rate: number): string | null => {
+  if (rate <= 0) return null;
+  const days = Math.ceil(remaining / rate);
+  return days > MAX_FORECAST_DAYS ? null : fromDayNumber(todayNumber + days);
+};
+
+/**
+ * Project when `remaining` submissions will be collected at the given daily rate
+ */
+export function forecastCompletion(
+  remaining: number,
+  rate: DailyRate,
+  today: Date = new Date()
+): CompletionForecast {
+  const todayNumber = dayNumber(toDay(today));
+  const base = { remaining: Math.max(0, remaining), ratePerDay: Math.round(rate.mean * 10) / 10 };
+
+  if (remaining <= 0) {
+    return { ...base, status: 'complete', projectedDate: null, earliestDate: null, latestDate: null };
+  }
+  if (rate.days === 0) {
+    return { ...base, status: 'not-started', projectedDate: null, earliestDate: null, latestDate: null };
+  }
+
+  const projectedDate = projectDate(todayNumber, remaining, rate.mean);
+  if (!projectedDate) {
+    return { ...base, status: 'stalled', projectedDate: null, earliestDate: null, latestDate: null };
+  }
+
+  // Interval on the mean rate; the slow end may never finish
+  const standardError = Math.sqrt(rate.variance / rate.days);
+  return {
+    ...base,
+    status: 'projected',
+    projectedDate,
+    earliestDate: projectDate(todayNumber, remaining, rate.mean + Z_SCORE * standardError),
+    latestDate: projectDate(todayNumber, remaining, rate.mean - Z_SCORE * standardError),
+  };
+}
+
+/**
+ * Short label for a forecast, e.g. "Oct 24 (Oct 22 – Oct 29)"
+ */
+export function formatForecast(forecast: CompletionForecast): string {
+  const format = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  switch (forecast.status) {
+    case 'complete':
+      return 'Complete';
+    case 'not-started':
+      return 'Not started';
+    case 'stalled':
+      return 'Stalled';
+    default: {
+      const projected = format(forecast.projectedDate as string);
+      const earliest = forecast.earliestDate ? format(forecast.earliestDate) : projected;
+      const latest = forecast.latestDate ? format(forecast.latestDate) : 'open-ended';
+      return earliest === latest ? projected : `${projected} (${earliest} – ${latest})`;
+    }
+  }
+}
@@ -0,0 +1,460 @@
+import type { FormChoice, FormQuestion, FormSchema, KoBoSubmission } from '@/types';
+
+// XLSForm row types that never hold an enumerator-entered answer
+const NON_ANSWER_TYPES = new Set([
+  'start',
+  'end',
+  'today',
+  'deviceid',
+  'subscriberid',
+  'simserial',
+  'phonenumber',
+  'username',
+  'email',
+  'audit',
+  'calculate',
+  'note',
+  'hidden',
+  'xml-external',
+  'start-geopoint',
+]);
+
+// Splits "select_one villages" style types and folds "begin group" into "begin_group"
+const parseRowType = (type: unknown): { type: string; listName?: string } => {
+  const raw = String(type ?? '').trim().toLowerCase();
+  if (/^(begin|end)\s+(group|repeat)$/.test(raw)) {
+    return { type: raw.replace(/\s+/, '_') };
+  }
+  const [base, listName] = raw.split(/\s+/);
+  return { type: base, listName };
+};
+
+// KoBo stores labels as one entry per translation; take the first non-empty one
+const pickLabel = (label: unknown, fallback: string): string => {
+  if (Array.isArray(label)) {
+    const first = label.find((entry) => typeof entry === 'string' && entry.trim() !== '');
+    return first ? String(first).trim() : fallback;
+  }
+  if (typeof label === 'string' && label.trim() !== '') return label.trim();
+  return fallback;
+};
+
+const isRequired = (value: unknown): boolean =>
+  value === true || (typeof value === 'string' && ['true', 'yes', 'true()'].includes(value.trim().toLowerCase()));
+
+/**
+ * Convert a KoBo v2 asset (`/api/v2/assets/{id}/`) into a flat form model
+ */
+export function parseAssetContent(asset: any): FormSchema {
+  const content = asset?.content ?? {};
+  const surveyRows: any[] = Array.isArray(content.survey) ? content.survey : [];
+  const choiceRows: any[] = Array.isArray(content.choices) ? content.choices : [];
+
+  const questions: FormQuestion[] = [];
+  const groupStack: Array<{ name: string; relevant: string | null; repeat: boolean }> = [];
+
+  surveyRows.forEach((row) => {
+    const { type, listName } = parseRowType(row.type);
+    const name = String(row.$autoname ?? row.name ?? '').trim();
+    const relevant = typeof row.relevant === 'string' && row.relevant.trim() ? row.relevant.trim() : null;
+
+    if (type === 'begin_group' || type === 'begin_repeat') {
+      groupStack.push({ name, relevant, repeat: type === 'begin_repeat' });
+      return;
+    }
+
+    if (type === 'end_group' || type === 'end_repeat') {
+      groupStack.pop();
+      return;
+    }
+
+    if (!name) return;
+
+    const path =
+      typeof row.$xpath === 'string' && row.$xpath
+        ? row.$xpath
+        : [...groupStack.map((group) => group.name), name].filter(Boolean).join('/');
+
+    const ancestorRelevance = groupStack
+      .map((group) => group.relevant)
+      .filter((value): value is string => value !== null)
+      .reverse();
+
+    questions.push({
+      name,
+      path,
+      type,
+      label: pickLabel(row.label, name),
+      required: isRequired(row.required),
+      relevant: relevant ? [relevant, ...ancestorRelevance] : ancestorRelevance,
+      listName: row.select_from_list_name ?? listName,
+      inRepeat: groupStack.some((group) => group.repeat),
+    });
+  });
+
+  const choices: Record<string, FormChoice[]> = {};
+  choiceRows.forEach((row) => {
+    const listName = row.list_name;
+    const name = String(row.$autovalue ?? row.name ?? '').trim();
+    if (!listName || !name) return;
+
+    if (!choices[listName]) {
+      choices[listName] = [];
+    }
+    choices[listName].push({ name, label: pickLabel(row.label, name) });
+  });
+
+  return {
+    formId: String(asset?.uid ?? ''),
+    title: String(asset?.name ?? ''),
+    version: asset?.version_id ?? null,
+    questions,
+    choices,
+  };
+}
+
+export const isAnswerQuestion = (question: FormQuestion): boolean => !NON_ANSWER_TYPES.has(question.type);
+
+export function getQuestion(schema: FormSchema, path: string): FormQuestion | undefined {
+  return schema.questions.find((question) => question.path === path || question.name === path);
+}
+
+export function getQuestionLabel(schema: FormSchema | null, path: string): string {
+  if (!schema) return path;
+  return getQuestion(schema, path)?.label ?? path;
+}
+
+/**
+ * Map a stored choice code (or space-separated codes for select_multiple) to its label(s)
+ */
+export function getChoiceLabel(schema: FormSchema | null, path: string, value: unknown): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  if (!schema) return raw;
+
+  const question = getQuestion(schema, path);
+  const list = question?.listName ? schema.choices[question.listName] : undefined;
+  if (!list) return raw;
+
+  const codes = question?.type === 'select_multiple' ? raw.split(/\s+/).filter(Boolean) : [raw];
+  return codes
+    .map((code) => list.find((choice) => choice.name === code)?.label ?? code)
+    .join(', ');
+}
+
+const isEmptyAnswer = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && Number.isNaN(value)) ||
+  (Array.isArray(value) && value.length === 0);
+
+// --- Relevance evaluation -------------------------------------------------
+// Supports the XLSForm subset our forms use: ${field} references, string/number literals,
+// = != < <= > >=, and/or, parentheses, not(), selected(), count-selected(), string-length().
+
+type Token =
+  | { kind: 'ref'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'op'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'punct'; value: '(' | ')' | ',' };
+
+type Value = string | number | boolean;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '$' && expression[index + 1] === '{') {
+      const end = expression.indexOf('}', index);
+      if (end === -1) throw new Error('Unterminated field reference');
+      tokens.push({ kind: 'ref', value: expression.slice(index + 2, end).trim() });
+      index = end + 1;
+    } else if (char === "'" || char === '"') {
+      const end = expression.indexOf(char, index + 1);
+      if (end === -1) throw new Error('Unterminated string literal');
+      tokens.push({ kind: 'string', value: expression.slice(index + 1, end) });
+      index = end + 1;
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(expression[index + 1] ?? ''))) {
+      const match = expression.slice(index).match(/^-?\d+(\.\d+)?/)!;
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      index += match[0].length;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: 'punct', value: char });
+      index += 1;
+    } else {
+      const operator = expression.slice(index).match(/^(!=|<=|>=|=|<|>)/);
+      if (operator) {
+        tokens.push({ kind: 'op', value: operator[0] });
+        index += operator[0].length;
+        continue;
+      }
+
+      const identifier = expression.slice(index).match(/^[A-Za-z_][\w-]*/);
+      if (!identifier) throw new Error(`Unsupported token at "${expression.slice(index)}"`);
+      tokens.push({ kind: 'ident', value: identifier[0] });
+      index += identifier[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+const toNumber = (value: Value): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value.trim() === '' ? NaN : Number(value);
+};
+
+const toBoolean = (value: Value): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  return value !== '';
+};
+
+const compare = (left: Value, operator: string, right: Value): boolean => {
+  const numeric = typeof left === 'number' || typeof right === 'number' || !['=', '!='].includes(operator);
+
+  if (numeric) {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (Number.isNaN(a) || Number.isNaN(b)) return operator === '!=';
+    switch (operator) {
+      case '=': return a === b;
+      case '!=': return a !== b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+    }
+  }
+
+  return operator === '=' ? String(left) === String(right) : String(left) !== String(right);
+};
+
+function evaluateTokens(tokens: Token[], resolve: (name: string) => unknown): Value {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const expectPunct = (value: '(' | ')' | ',') => {
+    const token = tokens[position];
+    if (!token || token.kind !== 'punct' || token.value !== value) {
+      throw new Error(`Expected "${value}"`);
+    }
+    position += 1;
+  };
+
+  const callFunction = (name: string, args: Value[]): Value => {
+    switch (name) {
+      case 'not':
+        return !toBoolean(args[0] ?? false);
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'selected':
+        return String(args[0] ?? '').split(/\s+/).includes(String(args[1] ?? ''));
+      case 'count-selected':
+        return String(args[0] ?? '').split(/\s+/).filter(Boolean).length;
+      case 'string-length':
+        return String(args[0] ?? '').length;
+      default:
+        throw new Error(`Unsupported function ${name}()`);
+    }
+  };
+
+  const parsePrimary = (): Value => {
+    const token = tokens[position];
+    if (!token) throw new Error('Unexpected end of expression');
+    position += 1;
+
+    switch (token.kind) {
+      case 'ref': {
+        const raw = resolve(token.value);
+        return raw === null || raw === undefined ? '' : typeof raw === 'number' ? raw : String(raw);
+      }
+      case 'string':
+      case 'number':
+        return token.value;
+      case 'punct':
+        if (token.value === '(') {
+          const value = parseOr();
+          expectPunct(')');
+          return value;
+        }
+        break;
+      case 'ident': {
+        expectPunct('(');
+        const args: Value[] = [];
+        while (!(peek()?.kind === 'punct' && peek()?.value === ')')) {
+          args.push(parseOr());
+          if (peek()?.kind === 'punct' && peek()?.value === ',') position += 1;
+        }
+        expectPunct(')');
+        return callFunction(token.value, args);
+      }
+    }
+
+    throw new Error(`Unexpected token "${String(token.value)}"`);
+  };
+
+  const parseComparison = (): Value => {
+    const left = parsePrimary();
+    const token = peek();
+    if (token?.kind === 'op') {
+      position += 1;
+      return compare(left, token.value, parsePrimary());
+    }
+    return left;
+  };
+
+  const parseAnd = (): Value => {
+    let value = parseComparison();
+    while (peek()?.kind === 'ident' && peek()?.value === 'and') {
+      position += 1;
+      const right = parseComparison();
+      value = toBoolean(value) && toBoolean(right);
+    }
+    return value;
+  };
+
+  function parseOr(): Value {
+    let value = parseAnd();
+    while (peek()?.kind === 'ident' && peek()?.value === 'or') {
+      position += 1;
+      const right = parseAnd();
+      value = toBoolean(value) || toBoolean(right);
+    }
+    return value;
+  }
+
+  const result = parseOr();
+  if (position < tokens.length) throw new Error('Unexpected trailing tokens');
+  return result;
+}
+
+/**
+ * Tokenize an XLSForm-style expression once for repeated evaluation.
+ * Throws on syntax outside the supported subset, here or when evaluated.
+ */
+export function compileExpression(expression: string): (resolve: (name: string) => unknown) => boolean {
+  const tokens = tokenize(expression);
+  return (resolve) => toBoolean(evaluateTokens(tokens, resolve));
+}
+
+/**
+ * Question name → submission path; the first question wins when a name repeats across groups
+ */
+export function buildQuestionPaths(schema: FormSchema | null): Map<string, string> {
+  const paths = new Map<string, string>();
+  schema?.questions.forEach((question) => {
+    if (!paths.has(question.name)) paths.set(question.name, question.path);
+  });
+  return paths;
+}
+
+export type AnswerState = 'answered' | 'missing' | 'not-applicable';
+
+export interface CompiledFormSchema {
+  // Answerable questions outside repeat groups, in form order
+  questions: FormQuestion[];
+  // State of each of `questions` in one submission, keyed by path
+  answerStates: (submission: KoBoSubmission) => Map<string, AnswerState>;
+}
+
+/**
+ * Resolve question names and tokenize every relevance expression once per schema, so fill rate
+ * and missingness only evaluate precompiled checks for each submission.
+ * A question is not applicable when its relevance chain is false, or can't be evaluated and it
+ * wasn't answered.
+ */
+export function compileFormSchema(schema: FormSchema): CompiledFormSchema {
+  const paths = buildQuestionPaths(schema);
+  // null for expressions outside the supported subset
+  const checks = new Map<string, ((resolve: (name: string) => unknown) => boolean) | null>();
+  schema.questions.forEach((question) => {
+    question.relevant.forEach((expression) => {
+      if (checks.has(expression)) return;
+      try {
+        checks.set(expression, compileExpression(expression));
+      } catch {
+        checks.set(expression, null);
+      }
+    });
+  });
+
+  const questions = schema.questions.filter((question) => !question.inRepeat && isAnswerQuestion(question));
+
+  const answerStates = (submission: KoBoSubmission): Map<string, AnswerState> => {
+    const resolve = (name: string) => {
+      const path = paths.get(name);
+      return path ? submission[path] : undefined;
+    };
+    // Group conditions are shared by every question in the group, so each is evaluated once
+    const results = new Map<string, boolean | null>();
+    const evaluate = (expression: string): boolean | null => {
+      let result = results.get(expression);
+      if (result === undefined) {
+        const check = checks.get(expression);
+        try {
+          result = check ? check(resolve) : null;
+        } catch {
+          result = null;
+        }
+        results.set(expression, result);
+      }
+      return result;
+    };
+
+    const states = new Map<string, AnswerState>();
+    questions.forEach((question) => {
+      let relevant: boolean | null = true;
+      for (const expression of question.relevant) {
+        relevant = evaluate(expression);
+        if (relevant !== true) break;
+      }
+
+      if (relevant === false) {
+        states.set(question.path, 'not-applicable');
+      } else if (!isEmptyAnswer(submission[question.path])) {
+        states.set(question.path, 'answered');
+      } else {
+        states.set(question.path, relevant === null ? 'not-applicable' : 'missing');
+      }
+    });
+    return states;
+  };
+
+  return { questions, answerStates };
+}
+
+/**
+ * Share of required questions answered, counting only those relevant to this submission.
+ * Questions whose relevance can't be evaluated are counted only when answered.
+ */
+export function computeRequiredFillRate(
+  schema: CompiledFormSchema,
+  states: Map<string, AnswerState>
+): number | null {
+  let totalFields = 0;
+  let filledFields = 0;
+
+  schema.questions.forEach((question) => {
+    if (!question.required) return;
+
+    const state = states.get(question.path);
+    if (state === 'not-applicable') return;
+
+    totalFields += 1;
+    if (state === 'answered') filledFields += 1;
+  });
+
+  if (totalFields === 0) return null;
+  return Math.round((filledFields / totalFields) * 100);
+}
@@ -0,0 +1,62 @@
+// Distance between two GPS points in meters (haversine)
+export function getDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${Math.round(meters / 100) / 10} km`;
+
+// Ray casting on a [lon, lat] ring
+function isInsideRing(lat: number, lon: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Meters from a point to the nearest edge of a GeoJSON MultiPolygon, or 0 when inside.
+ * Edges are measured on a local flat projection, which is accurate at village scale.
+ */
+export function distanceToPolygons(lat: number, lon: number, polygons: number[][][][]): number {
+  const metersPerDegLat = 111_320;
+  const metersPerDegLon = 111_320 * Math.cos((lat * Math.PI) / 180);
+  let nearest = Infinity;
+
+  for (const [outer, ...holes] of polygons) {
+    if (isInsideRing(lat, lon, outer) && !holes.some((hole) => isInsideRing(lat, lon, hole))) {
+      return 0;
+    }
+    for (const ring of [outer, ...holes]) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const ax = (ring[i][0] - lon) * metersPerDegLon;
+        const ay = (ring[i][1] - lat) * metersPerDegLat;
+        const bx = (ring[i + 1][0] - lon) * metersPerDegLon;
+        const by = (ring[i + 1][1] - lat) * metersPerDegLat;
+        const dx = bx - ax;
+        const dy = by - ay;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+        nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+      }
+    }
+  }
+
+  return nearest;
+}
@@ -0,0 +1,107 @@
+import type { Household, VillageTargets } from '@/types';
+import { median } from '@/lib/productivity';
+
+// ODK Collect's default auto-accept accuracy is 5 m; 20 m still places a fix on the right plot
+export const DEFAULT_GPS_ACCURACY_THRESHOLD = 20;
+
+export type GpsAccuracyLevel = 'good' | 'low' | 'unknown';
+
+export interface GpsAccuracyRow {
+  key: string;
+  label: string;
+  fixes: number;
+  // Fixes that carried an accuracy value
+  withAccuracy: number;
+  lowAccuracy: number;
+  medianAccuracy: number | null;
+}
+
+export interface LowAccuracyFix {
+  recordKey: string;
+  accuracy: number;
+  village: string;
+  enumeratorName: string | null;
+}
+
+const storageKey = (projectId: string) => `gpsAccuracyThreshold:${projectId}`;
+
+export function loadGpsAccuracyThreshold(projectId: string): number {
+  if (typeof window === 'undefined') return DEFAULT_GPS_ACCURACY_THRESHOLD;
+  const stored = Number(localStorage.getItem(storageKey(projectId)));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_GPS_ACCURACY_THRESHOLD;
+}
+
+export function saveGpsAccuracyThreshold(projectId: string, threshold: number): void {
+  localStorage.setItem(storageKey(projectId), String(threshold));
+}
+
+export const getGpsAccuracyLevel = (household: Pick<Household, 'accuracy'>, threshold: number): GpsAccuracyLevel => {
+  if (household.accuracy === null || household.accuracy === undefined) return 'unknown';
+  return household.accuracy > threshold ? 'low' : 'good';
+};
+
+/**
+ * Low-accuracy fixes per village or per enumerator, worst share first
+ */
+export function summarizeGpsAccuracy(
+  targets: VillageTargets,
+  threshold: number,
+  groupBy: 'village' | 'enumerator'
+): GpsAccuracyRow[] {
+  const rows = new Map<string, GpsAccuracyRow & { accuracies: number[] }>();
+
+  Object.entries(targets).forEach(([district, villages]) => {
+    Object.entries(villages).forEach(([village, target]) => {
+      target.households.forEach((household) => {
+        const key = groupBy === 'village' ? `${district}|${village}` : household.enumeratorId ?? '';
+        const label =
+          groupBy === 'village'
+            ? `${target.village} (${target.district})`
+            : household.enumeratorName ?? 'Unknown enumerator';
+
+        const row = rows.get(key) ?? {
+          key,
+          label,
+          fixes: 0,
+          withAccuracy: 0,
+          lowAccuracy: 0,
+          medianAccuracy: null,
+          accuracies: [],
+        };
+        rows.set(key, row);
+
+        row.fixes += 1;
+        if (household.accuracy !== null) {
+          row.withAccuracy += 1;
+          row.accuracies.push(household.accuracy);
+          if (household.accuracy > threshold) row.lowAccuracy += 1;
+        }
+      });
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(({ accuracies, ...row }) => ({ ...row, medianAccuracy: median(accuracies) }))
+    .sort((a, b) => b.lowAccuracy / Math.max(1, b.fixes) - a.lowAccuracy / Math.max(1, a.fixes));
+}
+
+/**
+ * Individual fixes worse than the threshold, least accurate first
+ */
+export function listLowAccuracyFixes(targets: VillageTargets, threshold: number): LowAccuracyFix[] {
+  const fixes: LowAccuracyFix[] = [];
+  Object.values(targets).forEach((villages) => {
+    Object.values(villages).forEach((target) => {
+      target.households.forEach((household) => {
+        if (!household.recordKey || household.accuracy === null || household.accuracy <= threshold) return;
+        fixes.push({
+          recordKey: household.recordKey,
+          accuracy: household.accuracy,
+          village: `${target.village} (${target.district})`,
+          enumeratorName: household.enumeratorName ?? null,
+        });
+      });
+    });
+  });
+  return fixes.sort((a, b) => b.accuracy - a.accuracy);
+}
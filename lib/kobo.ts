@@ -0,0 +1,186 @@
+import type { KoBoSubmission, ValidationStatus } from '@/types';
+import {
+  DataSourceApiError,
+  readErrorDetails,
+  type FetchSubmissionsOptions,
+  type SubmissionIdentity,
+  type SubmissionSource,
+} from '@/lib/dataSource';
+
+// KoBo caps data.json pages; 1000 keeps each response small enough for serverless limits
+const KOBO_PAGE_SIZE = 1000;
+
+export class KoBoApiError extends DataSourceApiError {
+  constructor(status: number, statusText: string, details: unknown, requestUrl: string) {
+    super(`KoBoToolbox API Error: ${status} ${statusText}`, status, details, requestUrl);
+    this.name = 'KoBoApiError';
+  }
+}
+
+export interface KoBoConnection {
+  serverUrl: string;
+  token: string;
+}
+
+export const buildKoBoUrl = (serverUrl: string, path: string): string =>
+  `${serverUrl.replace(/\/$/, '')}${path}`;
+
+export const koboHeaders = (token: string): Record<string, string> => ({
+  'Authorization': `Token ${token}`,
+  'Accept': 'application/json',
+});
+
+/**
+ * Fetch a KoBo API path and return its JSON body, throwing KoBoApiError on non-2xx responses
+ */
+export async function koboRequest<T>(
+  connection: KoBoConnection,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const url = buildKoBoUrl(connection.serverUrl, path);
+
+  const response = await fetch(url, {
+    method: 'GET',
+    ...init,
+    headers: {
+      ...koboHeaders(connection.token),
+      ...(init.headers as Record<string, string> | undefined),
+    },
+  });
+
+  if (!response.ok) {
+    const details = await readErrorDetails(response);
+    throw new KoBoApiError(response.status, response.statusText, details, url);
+  }
+
+  return response.json();
+}
+
+/**
+ * Walk data.json pages with start/limit until KoBo stops returning a `next` link
+ */
+async function fetchDataPages(
+  connection: KoBoConnection,
+  formId: string,
+  extraParams: Record<string, string>
+): Promise<KoBoSubmission[]> {
+  const results: KoBoSubmission[] = [];
+  let start = 0;
+
+  while (true) {
+    const params = new URLSearchParams({
+      format: 'json',
+      limit: String(KOBO_PAGE_SIZE),
+      start: String(start),
+      sort: JSON.stringify({ _id: 1 }),
+      ...extraParams,
+    });
+
+    const page = await koboRequest<{
+      count?: number;
+      next?: string | null;
+      results?: KoBoSubmission[];
+    }>(connection, `/api/v2/assets/${encodeURIComponent(formId)}/data.json?${params.toString()}`);
+
+    const pageResults = page.results ?? [];
+    results.push(...pageResults);
+    start += pageResults.length;
+
+    if (!page.next || pageResults.length === 0) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fetch every submission for a form, or those received since a watermark
+ */
+export async function fetchAllSubmissions(
+  connection: KoBoConnection,
+  formId: string,
+  { since }: FetchSubmissionsOptions = {}
+): Promise<{ count: number; results: KoBoSubmission[] }> {
+  const results = await fetchDataPages(
+    connection,
+    formId,
+    since ? { query: JSON.stringify({ _submission_time: { $gte: since } }) } : {}
+  );
+  return { count: results.length, results };
+}
+
+/**
+ * `_id` and `_validation_status` of every submission in a form
+ */
+export async function fetchKoBoValidationStatuses(
+  connection: KoBoConnection,
+  formId: string
+): Promise<KoBoSubmission[]> {
+  return fetchDataPages(connection, formId, { fields: JSON.stringify(['_id', '_validation_status']) });
+}
+
+export const KOBO_VALIDATION_UIDS: Record<ValidationStatus, string> = {
+  approved: 'validation_status_approved',
+  'not-approved': 'validation_status_not_approved',
+  'on-hold': 'validation_status_on_hold',
+};
+
+/**
+ * Set the validation status of many submissions in one bulk request
+ */
+export async function setKoBoValidationStatus(
+  connection: KoBoConnection,
+  formId: string,
+  submissions: SubmissionIdentity[],
+  status: ValidationStatus
+): Promise<void> {
+  const ids = submissions.map((submission) => submission.id).filter((id): id is number => id !== null);
+  if (ids.length === 0) return;
+
+  await koboRequest(connection, `/api/v2/assets/${encodeURIComponent(formId)}/data/validation_statuses/`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      payload: { submission_ids: ids, 'validation_status.uid': KOBO_VALIDATION_UIDS[status] },
+    }),
+  });
+}
+
+/**
+ * Fetch one submission attachment (photo, audio, ...) with the project's token
+ */
+export async function fetchKoBoAttachment(
+  connection: KoBoConnection,
+  formId: string,
+  { id }: SubmissionIdentity,
+  attachmentId: string,
+  range?: string | null
+): Promise<Response> {
+  const url = buildKoBoUrl(
+    connection.serverUrl,
+    `/api/v2/assets/${encodeURIComponent(formId)}/data/${encodeURIComponent(String(id ?? ''))}/attachments/${encodeURIComponent(attachmentId)}/`
+  );
+
+  const response = await fetch(url, {
+    headers: { 'Authorization': `Token ${connection.token}`, ...(range ? { Range: range } : {}) },
+  });
+
+  if (!response.ok) {
+    const details = await readErrorDetails(response);
+    throw new KoBoApiError(response.status, response.statusText, details, url);
+  }
+
+  return response;
+}
+
+export const koboSource = (connection: KoBoConnection): SubmissionSource => ({
+  type: 'kobo',
+  fetchSubmissions: (formId, options) => fetchAllSubmissions(connection, formId, options),
+  fetchValidationStatuses: (formId) => fetchKoBoValidationStatuses(connection, formId),
+  setValidationStatus: (formId, submissions, status) =>
+    setKoBoValidationStatus(connection, formId, submissions, status),
+  fetchAttachment: (formId, submission, attachment, range) =>
+    fetchKoBoAttachment(connection, formId, submission, attachment, range),
+});
@@ -0,0 +1,112 @@
+import type {
+  LocationCandidate,
+  LocationMismatch,
+  VillageArea,
+  VillageAreaSource,
+  VillageTargets,
+} from '@/types';
+import { distanceToPolygons, getDistance } from '@/lib/geo';
+import { median } from '@/lib/productivity';
+
+// Used for villages with a centroid but no radius, and around the fix cluster when there is no area at all
+export const DEFAULT_VILLAGE_RADIUS_METERS = 5000;
+// A cluster centre from fewer fixes is too easily pulled off by the strays it should catch
+const MIN_CLUSTER_FIXES = 5;
+
+const BOUNDARIES_URL = '/village-boundaries.geojson';
+
+const areaKey = (district: string, village: string) => `${district}|${village}`;
+
+/**
+ * Village polygons from a GeoJSON FeatureCollection whose features carry District/Village properties,
+ * keyed like the targets (lowercase district|village)
+ */
+export function parseVillageBoundaries(geojson: any): Record<string, VillageArea> {
+  const areas: Record<string, VillageArea> = {};
+  const features: any[] = Array.isArray(geojson?.features) ? geojson.features : [];
+
+  features.forEach((feature) => {
+    const properties = feature?.properties ?? {};
+    const district = String(properties.District ?? properties.district ?? '').trim().toLowerCase();
+    const village = String(properties.Village ?? properties.village ?? '').trim().toLowerCase();
+    const geometry = feature?.geometry;
+    if (!district || !village || !geometry) return;
+
+    const polygons =
+      geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.type === 'MultiPolygon' ? geometry.coordinates : null;
+    if (!Array.isArray(polygons) || polygons.length === 0) return;
+
+    areas[areaKey(district, village)] = { kind: 'polygon', polygons };
+  });
+
+  return areas;
+}
+
+/**
+ * Optional boundary file in /public; projects without one fall back to CSV centroids
+ */
+export async function loadVillageBoundaries(): Promise<Record<string, VillageArea>> {
+  try {
+    const response = await fetch(BOUNDARIES_URL);
+    if (!response.ok) return {};
+    return parseVillageBoundaries(await response.json());
+  } catch (error) {
+    console.warn('Failed to load village boundaries:', error);
+    return {};
+  }
+}
+
+/**
+ * Meters a point lies outside an area, or 0 when inside
+ */
+export function distanceOutsideArea(lat: number, lon: number, area: VillageArea): number {
+  if (area.kind === 'polygon') {
+    return distanceToPolygons(lat, lon, area.polygons);
+  }
+  return Math.max(0, getDistance(area.lat, area.lon, lat, lon) - area.radiusMeters);
+}
+
+/**
+ * Households whose GPS fix lies outside their village's expected area, furthest first.
+ * The fix's own accuracy is allowed as slack before a record is flagged.
+ */
+export function detectLocationMismatches(
+  targets: VillageTargets,
+  candidates: LocationCandidate[]
+): LocationMismatch[] {
+  const byVillage = new Map<string, LocationCandidate[]>();
+  candidates.forEach((candidate) => {
+    const key = areaKey(candidate.district, candidate.village);
+    const group = byVillage.get(key) ?? [];
+    group.push(candidate);
+    byVillage.set(key, group);
+  });
+
+  const mismatches: LocationMismatch[] = [];
+
+  byVillage.forEach((members) => {
+    const { district, village } = members[0];
+    let area = targets[district]?.[village]?.area;
+    let areaSource: VillageAreaSource = area?.kind === 'polygon' ? 'boundary' : 'radius';
+
+    if (!area) {
+      if (members.length < MIN_CLUSTER_FIXES) return;
+      area = {
+        kind: 'radius',
+        lat: median(members.map((member) => member.lat)) as number,
+        lon: median(members.map((member) => member.lon)) as number,
+        radiusMeters: DEFAULT_VILLAGE_RADIUS_METERS,
+      };
+      areaSource = 'cluster';
+    }
+
+    members.forEach(({ accuracy, ...ref }) => {
+      const distance = distanceOutsideArea(ref.lat, ref.lon, area as VillageArea) - (accuracy ?? 0);
+      if (distance > 0) {
+        mismatches.push({ ...ref, distanceMeters: Math.round(distance), areaSource });
+      }
+    });
+  });
+
+  return mismatches.sort((a, b) => b.distanceMeters - a.distanceMeters);
+}
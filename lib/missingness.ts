@@ -0,0 +1,99 @@
+import type { KoBoSubmission, MissingnessCell, MissingnessReport } from '@/types';
+import type { AnswerState, CompiledFormSchema } from '@/lib/formSchema';
+import { tallyFillableFields } from '@/lib/submissions';
+
+interface GroupTally {
+  submissions: number;
+  answered: Record<string, number>;
+  notApplicable: Record<string, number>;
+}
+
+const bump = (counts: Record<string, number>, path: string) => {
+  counts[path] = (counts[path] ?? 0) + 1;
+};
+
+/**
+ * Per-question answered/skipped counts by village and by enumerator, built up one submission
+ * at a time. With a form schema, questions hidden by skip logic don't count as missing;
+ * without one, a field counts as missing wherever another submission answered it.
+ */
+export function createMissingnessTally(formSchema: CompiledFormSchema | null) {
+  const questions = formSchema?.questions ?? [];
+  const paths = new Set(questions.map((question) => question.path));
+  const byVillage = new Map<string, GroupTally>();
+  const byEnumerator = new Map<string, GroupTally>();
+
+  const groupFor = (groups: Map<string, GroupTally>, key: string) => {
+    const group = groups.get(key) ?? { submissions: 0, answered: {}, notApplicable: {} };
+    groups.set(key, group);
+    group.submissions += 1;
+    return group;
+  };
+
+  // Pass `states` when the submission's answer states were already computed (e.g. for its fill rate)
+  const add = (
+    submission: KoBoSubmission,
+    villageKey: string | null,
+    enumeratorId: string | null,
+    states?: Map<string, AnswerState>
+  ) => {
+    const groups = [
+      villageKey ? groupFor(byVillage, villageKey) : null,
+      enumeratorId ? groupFor(byEnumerator, enumeratorId) : null,
+    ].filter((group): group is GroupTally => group !== null);
+    if (groups.length === 0) return;
+
+    if (formSchema) {
+      const answerStates = states ?? formSchema.answerStates(submission);
+      questions.forEach((question) => {
+        const state = answerStates.get(question.path);
+        if (state === 'missing') return;
+        groups.forEach((group) => bump(state === 'answered' ? group.answered : group.notApplicable, question.path));
+      });
+      return;
+    }
+
+    // Repeat entries are indexed per row and can't be compared across submissions
+    tallyFillableFields(submission, (path) => {
+      if (path.includes('[')) return;
+      paths.add(path);
+      groups.forEach((group) => bump(group.answered, path));
+    });
+  };
+
+  const toCells = (group: GroupTally): Record<string, MissingnessCell> => {
+    const cells: Record<string, MissingnessCell> = {};
+    paths.forEach((path) => {
+      const applicable = group.submissions - (group.notApplicable[path] ?? 0);
+      if (applicable <= 0) return;
+      cells[path] = { applicable, missing: applicable - (group.answered[path] ?? 0) };
+    });
+    return cells;
+  };
+
+  const snapshot = (): MissingnessReport => ({
+    questions: Array.from(paths),
+    byVillage: Object.fromEntries(Array.from(byVillage.entries()).map(([key, group]) => [key, toCells(group)])),
+    byEnumerator: Object.fromEntries(
+      Array.from(byEnumerator.entries()).map(([key, group]) => [key, toCells(group)])
+    ),
+  });
+
+  return { add, snapshot };
+}
+
+/**
+ * Sum a question's cells across groups
+ */
+export function totalMissingness(
+  groups: Record<string, Record<string, MissingnessCell>>,
+  path: string
+): MissingnessCell {
+  return Object.values(groups).reduce(
+    (total, cells) => ({
+      applicable: total.applicable + (cells[path]?.applicable ?? 0),
+      missing: total.missing + (cells[path]?.missing ?? 0),
+    }),
+    { applicable: 0, missing: 0 }
+  );
+}
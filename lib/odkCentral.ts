@@ -0,0 +1,294 @@
+import type { KoBoSubmission, ValidationStatus } from '@/types';
+import {
+  DataSourceApiError,
+  readErrorDetails,
+  type FetchSubmissionsOptions,
+  type SubmissionIdentity,
+  type SubmissionSource,
+} from '@/lib/dataSource';
+
+// OData pages; Central handles large $top values but smaller pages keep memory flat
+const ODK_PAGE_SIZE = 1000;
+// Refresh session tokens an hour before Central expires them
+const SESSION_REFRESH_MARGIN_MS = 60 * 60 * 1000;
+// Central's default session lifetime, assumed when a response carries no usable expiresAt
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class OdkCentralApiError extends DataSourceApiError {
+  constructor(status: number, statusText: string, details: unknown, requestUrl: string) {
+    super(`ODK Central API Error: ${status} ${statusText}`, status, details, requestUrl);
+    this.name = 'OdkCentralApiError';
+  }
+}
+
+export interface OdkCentralConnection {
+  serverUrl: string;
+  // Numeric Central project id (distinct from the dashboard project id)
+  odkProjectId: string;
+  email: string;
+  password: string;
+  authMode: 'basic' | 'session';
+}
+
+const sessionCache = new Map<string, { token: string; expiresAt: number }>();
+
+// Missing or unparseable expiresAt would otherwise force a new session on every request
+const sessionExpiry = (expiresAt: unknown, now: number): number => {
+  const parsed = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+  return Number.isFinite(parsed) ? parsed : now + DEFAULT_SESSION_TTL_MS;
+};
+
+const buildUrl = (serverUrl: string, path: string) => `${serverUrl.replace(/\/$/, '')}${path}`;
+
+async function getSessionToken(connection: OdkCentralConnection): Promise<string> {
+  const cacheKey = `${connection.serverUrl}|${connection.email}`;
+  const cached = sessionCache.get(cacheKey);
+  if (cached && cached.expiresAt - SESSION_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.token;
+  }
+
+  const url = buildUrl(connection.serverUrl, '/v1/sessions');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify({ email: connection.email, password: connection.password }),
+  });
+
+  if (!response.ok) {
+    const details = await readErrorDetails(response);
+    throw new OdkCentralApiError(response.status, response.statusText, details, url);
+  }
+
+  const session = await response.json();
+  sessionCache.set(cacheKey, {
+    token: session.token,
+    expiresAt: sessionExpiry(session.expiresAt, Date.now()),
+  });
+
+  return session.token;
+}
+
+async function authorizationHeader(connection: OdkCentralConnection): Promise<string> {
+  if (connection.authMode === 'session') {
+    return `Bearer ${await getSessionToken(connection)}`;
+  }
+  const credentials = Buffer.from(`${connection.email}:${connection.password}`).toString('base64');
+  return `Basic ${credentials}`;
+}
+
+const isGeoJsonPoint = (value: any): boolean =>
+  value && typeof value === 'object' && value.type === 'Point' && Array.isArray(value.coordinates);
+
+// KoBo geopoints are "lat lon alt accuracy"; GeoJSON stores [lon, lat, alt]
+const geoJsonToGeopoint = (value: any): string => {
+  const [lon, lat, alt = 0] = value.coordinates;
+  const accuracy = value.properties?.accuracy ?? 0;
+  return `${lat} ${lon} ${alt} ${accuracy}`;
+};
+
+/**
+ * Flatten an OData submission into KoBo's slash-delimited keys and system fields
+ */
+export function normalizeOdkSubmission(record: any): KoBoSubmission {
+  const submission: KoBoSubmission = {};
+  let firstGeopoint: [number, number] | null = null;
+
+  const flatten = (value: any, prefix: string, target: Record<string, any>) => {
+    Object.entries(value ?? {}).forEach(([key, child]) => {
+      if (key.startsWith('__') || key.includes('@odata')) return;
+      const path = prefix ? `${prefix}/${key}` : key;
+
+      if (isGeoJsonPoint(child)) {
+        target[path] = geoJsonToGeopoint(child);
+        if (!firstGeopoint) {
+          const [lon, lat] = (child as any).coordinates;
+          firstGeopoint = [lat, lon];
+        }
+      } else if (Array.isArray(child)) {
+        // Repeat groups: each entry keeps full paths, as in KoBo exports
+        target[path] = child.map((entry) => {
+          const item: Record<string, any> = {};
+          flatten(entry, path, item);
+          return item;
+        });
+      } else if (child && typeof child === 'object') {
+        flatten(child, path, target);
+      } else {
+        target[path] = child;
+      }
+    });
+  };
+
+  flatten(record, '', submission);
+
+  const system = record.__system ?? {};
+  const instanceId = String(record.__id ?? submission['meta/instanceID'] ?? '');
+
+  submission._uuid = instanceId.replace(/^uuid:/, '');
+  submission._submission_time = system.submissionDate;
+  submission._submitted_by = system.submitterName;
+  submission._review_state = system.reviewState ?? null;
+  if (firstGeopoint) {
+    submission._geolocation = firstGeopoint;
+  }
+
+  return submission;
+}
+
+/**
+ * Walk the form's OData Submissions pages with $top/$skip until Central stops returning a next link
+ */
+async function fetchODataPages(
+  connection: OdkCentralConnection,
+  xmlFormId: string,
+  extraParams: Record<string, string>
+): Promise<any[]> {
+  const records: any[] = [];
+  const authorization = await authorizationHeader(connection);
+  let skip = 0;
+
+  while (true) {
+    const params = new URLSearchParams({
+      '$top': String(ODK_PAGE_SIZE),
+      '$skip': String(skip),
+      '$count': 'true',
+      '$orderby': '__system/submissionDate asc',
+      ...extraParams,
+    });
+
+    const url = buildUrl(
+      connection.serverUrl,
+      `/v1/projects/${encodeURIComponent(connection.odkProjectId)}/forms/${encodeURIComponent(xmlFormId)}.svc/Submissions?${params.toString()}`
+    );
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': authorization,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const details = await readErrorDetails(response);
+      throw new OdkCentralApiError(response.status, response.statusText, details, url);
+    }
+
+    const page = await response.json();
+    const pageRecords: any[] = page.value ?? [];
+    records.push(...pageRecords);
+    skip += pageRecords.length;
+
+    if (!page['@odata.nextLink'] || pageRecords.length === 0) {
+      break;
+    }
+  }
+
+  return records;
+}
+
+export async function fetchOdkSubmissions(
+  connection: OdkCentralConnection,
+  xmlFormId: string,
+  { since }: FetchSubmissionsOptions = {}
+): Promise<{ count: number; results: KoBoSubmission[] }> {
+  const records = await fetchODataPages(connection, xmlFormId, {
+    '$expand': '*',
+    ...(since && { '$filter': `__system/submissionDate ge ${since}` }),
+  });
+  const results = records.map(normalizeOdkSubmission);
+  return { count: results.length, results };
+}
+
+/**
+ * Instance uuid and review state of every submission in a form
+ */
+export async function fetchOdkReviewStates(
+  connection: OdkCentralConnection,
+  xmlFormId: string
+): Promise<KoBoSubmission[]> {
+  const records = await fetchODataPages(connection, xmlFormId, { '$select': '__id,__system/reviewState' });
+  return records.map((record) => ({
+    _uuid: String(record.__id ?? '').replace(/^uuid:/, ''),
+    _review_state: record.__system?.reviewState ?? null,
+  }));
+}
+
+const instancePath = (connection: OdkCentralConnection, xmlFormId: string, uuid: string) => {
+  const instanceId = uuid.startsWith('uuid:') ? uuid : `uuid:${uuid}`;
+  return `/v1/projects/${encodeURIComponent(connection.odkProjectId)}/forms/${encodeURIComponent(xmlFormId)}/submissions/${encodeURIComponent(instanceId)}`;
+};
+
+/**
+ * Fetch one submission attachment by its file name
+ */
+export async function fetchOdkAttachment(
+  connection: OdkCentralConnection,
+  xmlFormId: string,
+  { uuid }: SubmissionIdentity,
+  filename: string,
+  range?: string | null
+): Promise<Response> {
+  const url = buildUrl(
+    connection.serverUrl,
+    `${instancePath(connection, xmlFormId, uuid ?? '')}/attachments/${encodeURIComponent(filename)}`
+  );
+
+  const response = await fetch(url, {
+    headers: { 'Authorization': await authorizationHeader(connection), ...(range ? { Range: range } : {}) },
+  });
+
+  if (!response.ok) {
+    const details = await readErrorDetails(response);
+    throw new OdkCentralApiError(response.status, response.statusText, details, url);
+  }
+
+  return response;
+}
+
+const ODK_REVIEW_STATES: Record<ValidationStatus, string> = {
+  approved: 'approved',
+  'not-approved': 'rejected',
+  'on-hold': 'hasIssues',
+};
+
+/**
+ * Set the review state of each submission; Central has no bulk endpoint, so one PATCH per instance
+ */
+export async function setOdkReviewState(
+  connection: OdkCentralConnection,
+  xmlFormId: string,
+  submissions: SubmissionIdentity[],
+  status: ValidationStatus
+): Promise<void> {
+  const authorization = await authorizationHeader(connection);
+
+  for (const { uuid } of submissions) {
+    if (!uuid) continue;
+    const url = buildUrl(connection.serverUrl, instancePath(connection, xmlFormId, uuid));
+
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': authorization,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reviewState: ODK_REVIEW_STATES[status] }),
+    });
+
+    if (!response.ok) {
+      const details = await readErrorDetails(response);
+      throw new OdkCentralApiError(response.status, response.statusText, details, url);
+    }
+  }
+}
+
+export const odkCentralSource = (connection: OdkCentralConnection): SubmissionSource => ({
+  type: 'odk-central',
+  fetchSubmissions: (formId, options) => fetchOdkSubmissions(connection, formId, options),
+  fetchValidationStatuses: (formId) => fetchOdkReviewStates(connection, formId),
+  setValidationStatus: (formId, submissions, status) => setOdkReviewState(connection, formId, submissions, status),
+  fetchAttachment: (formId, submission, attachment, range) =>
+    fetchOdkAttachment(connection, formId, submission, attachment, range),
+});
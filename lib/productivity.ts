@@ -0,0 +1,72 @@
+import type { EnumeratorDayStats, EnumeratorInfo, EnumeratorProductivity } from '@/types';
+
+export interface DateRange {
+  // Inclusive UTC days (YYYY-MM-DD); omitted bounds are open
+  from?: string;
+  to?: string;
+}
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const inRange = (day: string, { from, to }: DateRange) => (!from || day >= from) && (!to || day <= to);
+
+/**
+ * Roll each enumerator's daily stats up over a date range. Enumerators with no submissions
+ * in the range are left out.
+ */
+export function summarizeProductivity(
+  enumerators: EnumeratorInfo[],
+  enumeratorDays: Record<string, Record<string, EnumeratorDayStats>>,
+  range: DateRange = {}
+): EnumeratorProductivity[] {
+  const summaries: EnumeratorProductivity[] = [];
+
+  enumerators.forEach((enumerator) => {
+    const days = Object.entries(enumeratorDays[enumerator.id] ?? {}).filter(([day]) => inRange(day, range));
+    if (days.length === 0) return;
+
+    let submissions = 0;
+    let gpsSubmissions = 0;
+    let fillRateTotal = 0;
+    let fillRateCount = 0;
+    let activeMs = 0;
+    const durations: number[] = [];
+    const villages = new Set<string>();
+    const dailyCounts: Record<string, number> = {};
+
+    days.forEach(([day, stats]) => {
+      submissions += stats.submissions;
+      gpsSubmissions += stats.gpsSubmissions;
+      fillRateTotal += stats.fillRateTotal;
+      fillRateCount += stats.fillRateCount;
+      durations.push(...stats.durations);
+      stats.villages.forEach((village) => villages.add(village));
+      dailyCounts[day] = stats.submissions;
+      if (stats.firstActivity && stats.lastActivity) {
+        activeMs += Date.parse(stats.lastActivity) - Date.parse(stats.firstActivity);
+      }
+    });
+
+    summaries.push({
+      id: enumerator.id,
+      name: enumerator.name,
+      color: enumerator.color,
+      submissions,
+      activeDays: days.length,
+      perDay: Math.round((submissions / days.length) * 10) / 10,
+      dailyCounts,
+      medianDuration: median(durations),
+      activeHours: Math.round((activeMs / 3600000) * 10) / 10,
+      villagesCovered: villages.size,
+      gpsRate: submissions > 0 ? Math.round((gpsSubmissions / submissions) * 100) : null,
+      fillRate: fillRateCount > 0 ? Math.round(fillRateTotal / fillRateCount) : null,
+    });
+  });
+
+  return summaries;
+}
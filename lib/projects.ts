@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+import type { FormRole, ProjectForm, ProjectSummary } from '@/types';
+import type { DataSourceType, SubmissionSource } from '@/lib/dataSource';
+import { koboSource } from '@/lib/kobo';
+import { odkCentralSource } from '@/lib/odkCentral';
+
+// Server-side project registry. Credentials resolved here never leave the API routes,
+// so this module must not be imported from client components.
+
+export const DEFAULT_PROJECT_ID = 'default';
+
+const FORM_ROLES: FormRole[] = ['target', 'listing', 'supplementary'];
+
+export interface ProjectConfig {
+  id: string;
+  name: string;
+  source: DataSourceType;
+  serverUrl: string;
+  // Primary form: the first form counting toward targets (xmlFormId for ODK Central)
+  formId: string;
+  forms: ProjectForm[];
+  // KoBoToolbox API token
+  token: string;
+  // ODK Central project id and web user credentials
+  odkProjectId?: string;
+  email?: string;
+  password?: string;
+  authMode?: 'basic' | 'session';
+  // Shared secret the KoBo REST Service sends to /api/kobo/webhook
+  webhookSecret?: string;
+  // Shared secret supervisors enter to approve or reject submissions from the dashboard
+  reviewSecret?: string;
+}
+
+type RawProject = Partial<Omit<ProjectConfig, 'forms'>> & {
+  apiToken?: string;
+  forms?: Array<Partial<ProjectForm>>;
+};
+
+const normalizeForms = (raw: RawProject): ProjectForm[] => {
+  const forms = (Array.isArray(raw.forms) ? raw.forms : [])
+    .filter((form) => typeof form?.formId === 'string' && form.formId.trim())
+    .map((form) => ({
+      formId: form.formId!.trim(),
+      name: form.name?.trim() || form.formId!.trim(),
+      role: FORM_ROLES.includes(form.role as FormRole) ? (form.role as FormRole) : 'target',
+    }));
+
+  // A bare formId is the single form that counts toward targets
+  const formId = raw.formId?.trim();
+  if (formId && !forms.some((form) => form.formId === formId)) {
+    forms.unshift({ formId, name: raw.name?.trim() || formId, role: 'target' });
+  }
+
+  return forms;
+};
+
+const normalizeProject = (id: string, raw: RawProject): ProjectConfig | null => {
+  const source: DataSourceType = raw.source === 'odk-central' ? 'odk-central' : 'kobo';
+  const serverUrl = raw.serverUrl?.trim();
+  const forms = normalizeForms(raw);
+  const primaryForm = forms.find((form) => form.role === 'target');
+  const token = (raw.token ?? raw.apiToken)?.trim() ?? '';
+
+  if (!serverUrl || !primaryForm) {
+    console.warn(`Ignoring project "${id}": serverUrl and a target form are required`);
+    return null;
+  }
+
+  if (source === 'kobo' && !token) {
+    console.warn(`Ignoring KoBo project "${id}": token is required`);
+    return null;
+  }
+
+  if (source === 'odk-central' && (!raw.odkProjectId || !raw.email || !raw.password)) {
+    console.warn(`Ignoring ODK Central project "${id}": odkProjectId, email and password are required`);
+    return null;
+  }
+
+  return {
+    id,
+    name: raw.name?.trim() || id,
+    source,
+    serverUrl: serverUrl.replace(/\/$/, ''),
+    formId: primaryForm.formId,
+    forms,
+    token,
+    odkProjectId: raw.odkProjectId ? String(raw.odkProjectId) : undefined,
+    email: raw.email,
+    password: raw.password,
+    authMode: raw.authMode === 'session' ? 'session' : 'basic',
+    webhookSecret: raw.webhookSecret?.trim() || process.env.KOBO_WEBHOOK_SECRET || undefined,
+    reviewSecret: raw.reviewSecret?.trim() || process.env.KOBO_REVIEW_SECRET || undefined,
+  };
+};
+
+const parseProjectList = (source: string, json: string): Array<[string, RawProject]> => {
+  try {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed)) {
+      return parsed
+        .filter((entry) => entry && typeof entry.id === 'string')
+        .map((entry) => [entry.id, entry]);
+    }
+    if (parsed && typeof parsed === 'object') {
+      return Object.entries(parsed as Record<string, RawProject>);
+    }
+  } catch (error) {
+    console.error(`Failed to parse KoBo projects from ${source}:`, error);
+  }
+  return [];
+};
+
+const parseFormList = (json: string | undefined): RawProject['forms'] => {
+  if (!json) return undefined;
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch (error) {
+    console.error('Failed to parse KOBO_FORMS:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Load projects from (in increasing precedence):
+ * - KOBO_SERVER_URL / KOBO_FORM_ID / KOBO_API_TOKEN (plus optional KOBO_FORMS) as the "default" project
+ * - KOBO_PROJECTS_FILE, a local JSON config store
+ * - KOBO_PROJECTS, inline JSON (object keyed by id, or array of { id, ... })
+ */
+function loadProjects(): Map<string, ProjectConfig> {
+  const projects = new Map<string, ProjectConfig>();
+  const entries: Array<[string, RawProject]> = [];
+
+  if (process.env.KOBO_FORM_ID || process.env.KOBO_FORMS || process.env.KOBO_API_TOKEN) {
+    entries.push([
+      DEFAULT_PROJECT_ID,
+      {
+        name: process.env.KOBO_PROJECT_NAME,
+        serverUrl: process.env.KOBO_SERVER_URL || 'https://eu.kobotoolbox.org',
+        formId: process.env.KOBO_FORM_ID,
+        forms: parseFormList(process.env.KOBO_FORMS),
+        token: process.env.KOBO_API_TOKEN,
+      },
+    ]);
+  }
+
+  const projectsFile = process.env.KOBO_PROJECTS_FILE;
+  if (projectsFile) {
+    try {
+      entries.push(...parseProjectList(projectsFile, readFileSync(projectsFile, 'utf8')));
+    } catch (error) {
+      console.error(`Failed to read KoBo projects file ${projectsFile}:`, error);
+    }
+  }
+
+  if (process.env.KOBO_PROJECTS) {
+    entries.push(...parseProjectList('KOBO_PROJECTS', process.env.KOBO_PROJECTS));
+  }
+
+  entries.forEach(([id, raw]) => {
+    const project = normalizeProject(id, raw);
+    if (project) {
+      projects.set(id, project);
+    }
+  });
+
+  return projects;
+}
+
+// Constant-time comparison for shared secrets sent by callers
+export const secretsMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export function getProject(projectId: string | null | undefined): ProjectConfig | null {
+  return loadProjects().get(projectId || DEFAULT_PROJECT_ID) ?? null;
+}
+
+/**
+ * Public view of the configured projects, safe to return to the browser
+ */
+export function listProjects(): ProjectSummary[] {
+  return Array.from(loadProjects().values()).map(({ id, name, forms }) => ({ id, name, forms }));
+}
+
+/**
+ * Adapter that loads submissions for a project from its configured back-end
+ */
+export function getProjectSource(project: ProjectConfig): SubmissionSource {
+  if (project.source === 'odk-central') {
+    return odkCentralSource({
+      serverUrl: project.serverUrl,
+      odkProjectId: project.odkProjectId!,
+      email: project.email!,
+      password: project.password!,
+      authMode: project.authMode ?? 'basic',
+    });
+  }
+
+  return koboSource(project);
+}
@@ -0,0 +1,19 @@
+import type { KoBoSubmission } from '@/types';
+import { readApiResponse } from '@/lib/apiRequest';
+
+// Realtime events only announce record keys; a burst of pushes is fetched in batches of this size
+export const MAX_PUSHED_BATCH = 100;
+
+/**
+ * Payloads of webhook-pushed submissions announced on kobo_submission_events
+ */
+export async function fetchPushedSubmissions(projectId: string, recordKeys: string[]): Promise<KoBoSubmission[]> {
+  const params = new URLSearchParams({ projectId });
+  recordKeys.forEach((recordKey) => params.append('recordKey', recordKey));
+
+  const response = await fetch(`/api/kobo/pushed?${params.toString()}`, {
+    headers: { 'Accept': 'application/json' },
+  });
+  const data = await readApiResponse<{ submissions: KoBoSubmission[] }>(response);
+  return data.submissions;
+}
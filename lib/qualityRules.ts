@@ -0,0 +1,184 @@
+import type {
+  FormSchema,
+  KoBoSubmission,
+  QualityRule,
+  QualityRuleResults,
+  QualityThresholds,
+  RuleViolation,
+  SubmissionRef,
+} from '@/types';
+import { buildQuestionPaths, compileExpression } from '@/lib/formSchema';
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  onTrackPercent: 90,
+  monitorPercent: 70,
+  upToDateDays: 3,
+  checkInDays: 7,
+};
+
+export interface QualityStatus {
+  label: string;
+  tone: string;
+}
+
+const rulesKey = (projectId: string) => `qualityRules:${projectId}`;
+const thresholdsKey = (projectId: string) => `qualityThresholds:${projectId}`;
+
+export function loadQualityRules(projectId: string): QualityRule[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(rulesKey(projectId));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((rule) => rule && typeof rule.id === 'string' && typeof rule.check === 'string')
+      : [];
+  } catch (error) {
+    console.warn('Failed to read quality rules:', error);
+    return [];
+  }
+}
+
+export function saveQualityRules(projectId: string, rules: QualityRule[]): void {
+  localStorage.setItem(rulesKey(projectId), JSON.stringify(rules));
+}
+
+export function loadQualityThresholds(projectId: string): QualityThresholds {
+  if (typeof window === 'undefined') return DEFAULT_QUALITY_THRESHOLDS;
+
+  try {
+    const stored = localStorage.getItem(thresholdsKey(projectId));
+    return stored ? { ...DEFAULT_QUALITY_THRESHOLDS, ...JSON.parse(stored) } : DEFAULT_QUALITY_THRESHOLDS;
+  } catch (error) {
+    console.warn('Failed to read quality thresholds:', error);
+    return DEFAULT_QUALITY_THRESHOLDS;
+  }
+}
+
+export function saveQualityThresholds(projectId: string, thresholds: QualityThresholds): void {
+  localStorage.setItem(thresholdsKey(projectId), JSON.stringify(thresholds));
+}
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Syntax error in a rule expression, or null when it's valid
+ */
+export function validateRuleExpression(expression: string): string | null {
+  if (!expression.trim()) return 'Expression is empty';
+  try {
+    compileExpression(expression)(() => '');
+    return null;
+  } catch (error: any) {
+    return error?.message ?? 'Invalid expression';
+  }
+}
+
+/**
+ * Badge for a 0-100 completeness score
+ */
+export function getCompletionStatus(value: number | null, thresholds: QualityThresholds): QualityStatus {
+  if (value === null) {
+    return { label: 'No data', tone: 'bg-muted text-foreground/60' };
+  }
+  if (value >= thresholds.onTrackPercent) {
+    return { label: 'On track', tone: 'bg-secondary/50 text-brand-slate' };
+  }
+  if (value >= thresholds.monitorPercent) {
+    return { label: 'Monitor', tone: 'bg-brand-chartreuse/70 text-brand-slate' };
+  }
+  return { label: 'Needs attention', tone: 'bg-brand-coral/70 text-brand-slate' };
+}
+
+/**
+ * Badge for how long ago a village last received a submission
+ */
+export function getRecencyStatus(daysSinceLastSubmission: number | null, thresholds: QualityThresholds): QualityStatus {
+  if (daysSinceLastSubmission === null) {
+    return { label: 'No submissions yet', tone: 'bg-brand-coral/70 text-brand-slate' };
+  }
+  if (daysSinceLastSubmission <= thresholds.upToDateDays) {
+    return { label: 'Up to date', tone: 'bg-secondary/50 text-brand-slate' };
+  }
+  if (daysSinceLastSubmission <= thresholds.checkInDays) {
+    return { label: 'Check-in soon', tone: 'bg-brand-chartreuse/70 text-brand-slate' };
+  }
+  return { label: 'Needs follow-up', tone: 'bg-brand-coral/70 text-brand-slate' };
+}
+
+// ${name} resolves by form question name, then exact submission key, then the last path segment
+// Last path segment → key for one submission, for names the schema doesn't know
+const buildSubmissionPaths = (submission: KoBoSubmission): Map<string, string> => {
+  const paths = new Map<string, string>();
+  Object.keys(submission).forEach((key) => {
+    const name = key.slice(key.lastIndexOf('/') + 1);
+    if (!paths.has(name)) paths.set(name, key);
+  });
+  return paths;
+};
+
+/**
+ * Evaluates every rule against submissions as they are added. Rules with syntax errors are
+ * reported once and skipped; a rule that throws on one submission is counted and keeps running.
+ */
+export function createRuleEvaluator(rules: QualityRule[], formSchema: FormSchema | null) {
+  const schemaPaths = buildQuestionPaths(formSchema);
+  const checked: Record<string, number> = {};
+  const errors: Record<string, string> = {};
+  const evaluationErrors: Record<string, { count: number; message: string }> = {};
+  const violations: RuleViolation[] = [];
+
+  const compiled = rules.flatMap((rule) => {
+    try {
+      return [
+        {
+          rule,
+          check: compileExpression(rule.check),
+          when: rule.when?.trim() ? compileExpression(rule.when) : null,
+        },
+      ];
+    } catch (error: any) {
+      errors[rule.id] = error?.message ?? 'Invalid expression';
+      return [];
+    }
+  });
+
+  const add = (submission: KoBoSubmission, ref: SubmissionRef) => {
+    let submissionPaths: Map<string, string> | null = null;
+    const resolve = (name: string): unknown => {
+      const path = schemaPaths.get(name);
+      if (path) return submission[path];
+      if (name in submission) return submission[name];
+      // Only built when a rule names a field outside the schema
+      submissionPaths ??= buildSubmissionPaths(submission);
+      const key = submissionPaths.get(name);
+      return key ? submission[key] : undefined;
+    };
+
+    compiled.forEach(({ rule, check, when }) => {
+      try {
+        if (when && !when(resolve)) return;
+        const passed = check(resolve);
+        checked[rule.id] = (checked[rule.id] ?? 0) + 1;
+        if (!passed) {
+          violations.push({ ...ref, ruleId: rule.id });
+        }
+      } catch (error: any) {
+        const failed = evaluationErrors[rule.id] ?? { count: 0, message: error?.message ?? 'Evaluation failed' };
+        failed.count += 1;
+        evaluationErrors[rule.id] = failed;
+      }
+    });
+  };
+
+  const snapshot = (): QualityRuleResults => ({
+    checked: { ...checked },
+    violations: [...violations],
+    errors: { ...errors },
+    evaluationErrors: Object.fromEntries(
+      Object.entries(evaluationErrors).map(([ruleId, failed]) => [ruleId, { ...failed }])
+    ),
+  });
+
+  return { add, snapshot };
+}
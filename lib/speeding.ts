@@ -0,0 +1,50 @@
+import type { InterviewTiming, SpeedingFlag, SpeedingReason } from '@/types';
+import { median } from '@/lib/productivity';
+
+// Even a practised enumerator needs a few seconds to read, ask and record each answer
+export const MIN_SECONDS_PER_ANSWER = 3;
+// Interviews under this share of the enumerator's usual length are suspect
+export const BASELINE_RATIO = 0.4;
+// Fewer interviews than this don't give a reliable personal baseline
+export const MIN_BASELINE_INTERVIEWS = 5;
+
+/**
+ * Flag interviews that are implausibly short for the number of answers recorded, or far
+ * shorter than the same enumerator's median interview
+ */
+export function detectSpeeding(timings: InterviewTiming[]): SpeedingFlag[] {
+  const durationsByEnumerator = new Map<string, number[]>();
+  timings.forEach((timing) => {
+    if (!timing.enumeratorId) return;
+    const durations = durationsByEnumerator.get(timing.enumeratorId) ?? [];
+    durations.push(timing.durationMinutes);
+    durationsByEnumerator.set(timing.enumeratorId, durations);
+  });
+
+  const baselines = new Map<string, number>();
+  durationsByEnumerator.forEach((durations, enumeratorId) => {
+    if (durations.length >= MIN_BASELINE_INTERVIEWS) {
+      baselines.set(enumeratorId, median(durations) as number);
+    }
+  });
+
+  const flags: SpeedingFlag[] = [];
+  timings.forEach((timing) => {
+    const minimumMinutes = (timing.answeredFields * MIN_SECONDS_PER_ANSWER) / 60;
+    const baselineMinutes = timing.enumeratorId ? baselines.get(timing.enumeratorId) ?? null : null;
+    const reasons: SpeedingReason[] = [];
+
+    if (timing.durationMinutes < minimumMinutes) {
+      reasons.push('form-length');
+    }
+    if (baselineMinutes !== null && timing.durationMinutes < baselineMinutes * BASELINE_RATIO) {
+      reasons.push('enumerator-baseline');
+    }
+
+    if (reasons.length > 0) {
+      flags.push({ ...timing, reasons, minimumMinutes, baselineMinutes });
+    }
+  });
+
+  return flags.sort((a, b) => a.durationMinutes - b.durationMinutes);
+}
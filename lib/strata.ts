@@ -0,0 +1,33 @@
+import type { FieldMapping, FormSchema, KoBoSubmission, StratumQuota } from '@/types';
+import { getQuestion } from '@/lib/formSchema';
+import { normalizeString } from '@/lib/submissions';
+
+/**
+ * Matches a submission to one of its village's quotas through the mapped stratum field. Quota
+ * names in the targets file may be the stored choice code or its label, in any case.
+ */
+export function createStratumMatcher(mapping: FieldMapping, formSchema: FormSchema | null) {
+  // Lowercase choice code → lowercase label, for select questions among the stratum keys
+  const choiceLabels = new Map<string, string>();
+  if (formSchema) {
+    mapping.stratumKeys.forEach((key) => {
+      const question = getQuestion(formSchema, key);
+      const list = question?.listName ? formSchema.choices[question.listName] : undefined;
+      list?.forEach((choice) => choiceLabels.set(normalizeString(choice.name), normalizeString(choice.label)));
+    });
+  }
+
+  return (submission: KoBoSubmission, quotas: StratumQuota[]): StratumQuota | null => {
+    const key = mapping.stratumKeys.find((candidate) => normalizeString(submission[candidate]) !== '');
+    if (!key) return null;
+
+    const value = normalizeString(submission[key]);
+    const label = choiceLabels.get(value);
+    return (
+      quotas.find((quota) => {
+        const stratum = normalizeString(quota.stratum);
+        return stratum === value || (label !== undefined && stratum === label);
+      }) ?? null
+    );
+  };
+}
@@ -0,0 +1,166 @@
+import type { KoBoSubmission } from '@/types';
+import { getRecordKey } from '@/lib/submissions';
+
+// Browser-side snapshot of synced submissions so the dashboard opens instantly and keeps
+// working when field connectivity drops. Records are keyed by project and getRecordKey.
+
+const DB_NAME = 'survey-dashboard';
+// v2: records keyed per form (getRecordKey) instead of by bare _uuid; v3: KoBo records keyed by _id
+const DB_VERSION = 3;
+const SUBMISSIONS_STORE = 'submissions';
+const META_STORE = 'meta';
+
+interface CachedSubmission {
+  key: string;
+  projectId: string;
+  submission: KoBoSubmission;
+}
+
+export interface CachedSnapshot {
+  submissions: KoBoSubmission[];
+  lastSyncedAt: string | null;
+  // Per-form sync watermarks (advanceWatermarks); empty when a full fetch is needed
+  watermarks: Record<string, string>;
+}
+
+// Stored in META_STORE once per completed sync
+interface SyncMeta {
+  projectId: string;
+  lastSyncedAt: string;
+  watermarks?: Record<string, string>;
+}
+
+const isSupported = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion > 0 && event.oldVersion < DB_VERSION) {
+        // Older keys collapse records that share a _uuid; drop them and their watermarks so the
+        // next sync fetches everything again
+        request.transaction?.objectStore(SUBMISSIONS_STORE).clear();
+        request.transaction?.objectStore(META_STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(SUBMISSIONS_STORE)) {
+        const store = db.createObjectStore(SUBMISSIONS_STORE, { keyPath: 'key' });
+        store.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'projectId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Load the last synced snapshot for a project (empty when nothing is cached)
+ */
+export async function loadCachedSubmissions(projectId: string): Promise<CachedSnapshot> {
+  if (!isSupported()) return { submissions: [], lastSyncedAt: null, watermarks: {} };
+
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([SUBMISSIONS_STORE, META_STORE], 'readonly');
+    const [records, meta] = await Promise.all([
+      requestToPromise<CachedSubmission[]>(
+        transaction.objectStore(SUBMISSIONS_STORE).index('projectId').getAll(projectId)
+      ),
+      requestToPromise<SyncMeta | undefined>(
+        transaction.objectStore(META_STORE).get(projectId)
+      ),
+    ]);
+
+    return {
+      submissions: records.map((record) => record.submission),
+      lastSyncedAt: meta?.lastSyncedAt ?? null,
+      // Snapshots from before watermarks were stored get one full fetch
+      watermarks: meta?.watermarks ?? {},
+    };
+  } finally {
+    db.close();
+  }
+}
+
+const cacheKey = (projectId: string, submission: KoBoSubmission): string | null => {
+  const key = getRecordKey(submission);
+  return key ? `${projectId}|${key}` : null;
+};
+
+/**
+ * Upsert submissions into the cache; pass only the delta from an incremental sync, and `sync`
+ * only for records fetched from /api/kobo (never for webhook pushes)
+ */
+export async function saveCachedSubmissions(
+  projectId: string,
+  submissions: KoBoSubmission[],
+  sync?: { syncedAt: string; watermarks: Record<string, string> },
+  removed: KoBoSubmission[] = []
+): Promise<void> {
+  if (!isSupported()) return;
+
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([SUBMISSIONS_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(SUBMISSIONS_STORE);
+
+    submissions.forEach((submission) => {
+      const key = cacheKey(projectId, submission);
+      if (!key) return;
+      store.put({ key, projectId, submission } satisfies CachedSubmission);
+    });
+    // Records the server no longer lists (pruneDeletedSubmissions)
+    removed.forEach((submission) => {
+      const key = cacheKey(projectId, submission);
+      if (key) store.delete(key);
+    });
+
+    if (sync) {
+      transaction
+        .objectStore(META_STORE)
+        .put({ projectId, lastSyncedAt: sync.syncedAt, watermarks: sync.watermarks } satisfies SyncMeta);
+    }
+
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Forget a project's cached submissions and watermarks, so the next sync fetches everything
+ */
+export async function clearCachedSubmissions(projectId: string): Promise<void> {
+  if (!isSupported()) return;
+
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([SUBMISSIONS_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(SUBMISSIONS_STORE);
+    const keys = await requestToPromise(store.index('projectId').getAllKeys(projectId));
+    keys.forEach((key) => store.delete(key));
+    transaction.objectStore(META_STORE).delete(projectId);
+
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
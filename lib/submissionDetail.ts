@@ -0,0 +1,131 @@
+import type { FieldMapping, FormSchema, KoBoSubmission, SubmissionRef } from '@/types';
+import { extractEnumeratorInfo } from '@/lib/enumeratorColors';
+import { getChoiceLabel, getQuestion, getQuestionLabel } from '@/lib/formSchema';
+import {
+  buildAttachmentLink,
+  extractLatestTimestamp,
+  extractSubmissionValue,
+  FORM_UID_KEY,
+  getRecordKey,
+  tallyFillableFields,
+} from '@/lib/submissions';
+
+export type AttachmentKind = 'image' | 'audio' | 'video' | 'file';
+
+export interface AnswerRow {
+  path: string;
+  label: string;
+  value: string;
+  // 1-based repeat entry, or null outside repeat groups
+  entry: number | null;
+}
+
+export interface SubmissionAttachment {
+  name: string;
+  kind: AttachmentKind;
+  url: string;
+}
+
+const MEDIA_QUESTION_TYPES: Record<string, AttachmentKind> = {
+  image: 'image',
+  audio: 'audio',
+  'background-audio': 'audio',
+  video: 'video',
+  file: 'file',
+};
+
+const kindFromMimetype = (mimetype: unknown): AttachmentKind => {
+  const type = String(mimetype ?? '').split('/')[0];
+  return type === 'image' || type === 'audio' || type === 'video' ? type : 'file';
+};
+
+/**
+ * SubmissionRef for a raw submission, using the unaliased district and village
+ */
+export function toSubmissionRef(submission: KoBoSubmission, mapping: FieldMapping): SubmissionRef | null {
+  const recordKey = getRecordKey(submission);
+  if (!recordKey) return null;
+  const enumerator = extractEnumeratorInfo(submission, mapping);
+
+  return {
+    recordKey,
+    submissionId: typeof submission._id === 'number' ? submission._id : null,
+    uuid: submission._uuid ? String(submission._uuid) : null,
+    formUid: submission[FORM_UID_KEY] ?? null,
+    enumeratorId: enumerator?.id ?? null,
+    enumeratorName: enumerator?.name ?? null,
+    district: extractSubmissionValue(submission, mapping.districtKeys),
+    village: extractSubmissionValue(submission, mapping.villageKeys),
+    submittedAt: extractLatestTimestamp(submission, mapping.timestampKeys)?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Answered fields with question and choice labels, in form order when the schema is known.
+ * Repeat entries are stored as "group[0]/group/question"; the label comes from the question path.
+ */
+export function listAnswers(submission: KoBoSubmission, formSchema: FormSchema | null): AnswerRow[] {
+  const rows: AnswerRow[] = [];
+
+  tallyFillableFields(submission, (path, value) => {
+    const repeat = path.match(/\[(\d+)\]\/(?!.*\[\d+\])(.*)$/);
+    const questionPath = repeat ? repeat[2] : path;
+    rows.push({
+      path: questionPath,
+      label: getQuestionLabel(formSchema, questionPath),
+      value: getChoiceLabel(formSchema, questionPath, value),
+      entry: repeat ? Number(repeat[1]) + 1 : null,
+    });
+  });
+
+  // tallyFillableFields walks a stack, so restore document order before sorting by the form
+  rows.reverse();
+  if (!formSchema) return rows;
+
+  const order = new Map(formSchema.questions.map((question, index) => [question.path, index]));
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const orderA = order.get(a.row.path) ?? Number.MAX_SAFE_INTEGER;
+      const orderB = order.get(b.row.path) ?? Number.MAX_SAFE_INTEGER;
+      return orderA - orderB || (a.row.entry ?? 0) - (b.row.entry ?? 0) || a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Photos, audio and other files attached to a submission, linked through /api/kobo/attachment.
+ * KoBo lists them in `_attachments`; ODK Central records only hold file names in media questions.
+ */
+export function listAttachments(
+  projectId: string,
+  submission: KoBoSubmission,
+  formSchema: FormSchema | null
+): SubmissionAttachment[] {
+  const record = {
+    formUid: submission[FORM_UID_KEY] ?? null,
+    submissionId: typeof submission._id === 'number' ? submission._id : null,
+    uuid: submission._uuid ? String(submission._uuid) : null,
+  };
+
+  if (Array.isArray(submission._attachments)) {
+    return submission._attachments
+      .filter((attachment: any) => attachment?.id !== undefined && !attachment.is_deleted)
+      .map((attachment: any) => ({
+        name: String(attachment.media_file_basename ?? attachment.filename ?? attachment.id).split('/').pop()!,
+        kind: kindFromMimetype(attachment.mimetype),
+        url: buildAttachmentLink(projectId, record, String(attachment.id)),
+      }));
+  }
+
+  if (!formSchema) return [];
+
+  const attachments: SubmissionAttachment[] = [];
+  tallyFillableFields(submission, (path, value) => {
+    const question = getQuestion(formSchema, path.replace(/^.*\[\d+\]\//, ''));
+    const kind = question ? MEDIA_QUESTION_TYPES[question.type] : undefined;
+    if (!kind) return;
+    attachments.push({ name: String(value), kind, url: buildAttachmentLink(projectId, record, String(value)) });
+  });
+  return attachments.reverse();
+}
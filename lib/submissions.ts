@@ -0,0 +1,400 @@
+import type { FormRole, KoBoSubmission } from '@/types';
+import { DEFAULT_FIELD_MAPPING } from '@/lib/fieldMapping';
+
+const FILLABLE_FIELD_EXCLUDES = new Set(
+  [
+    '_attachments',
+    '_chunk',
+    '_id',
+    '_notes',
+    '_status',
+    '_status_string',
+    '_submitted_by',
+    '_uuid',
+    '_version',
+    '_tags',
+    '_validation_status',
+    '_review_state',
+    '_last_edit_date',
+    '__version__',
+    '_xform_id_string',
+    '_duration',
+    '_submission_time',
+    '_updated_at',
+    '_last_updated',
+    '__last_update',
+    '_geolocation',
+    'end',
+    'start',
+    'today',
+    'deviceid',
+    'subscriberid',
+    'simid',
+    'meta',
+    'formhub/uuid',
+    'instanceID',
+    'meta/instanceID',
+    'meta/instanceName',
+    'meta/deprecatedID',
+  ].map((key) => key.toLowerCase())
+);
+
+export const normalizeString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return String(value).trim().toLowerCase();
+};
+
+export const extractSubmissionValue = (submission: KoBoSubmission, keys: string[]): string => {
+  for (const key of keys) {
+    const raw = (submission as any)[key];
+    if (raw !== undefined && raw !== null && raw !== '') {
+      return normalizeString(raw);
+    }
+  }
+  return '';
+};
+
+const parseOptionalNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = parseFloat(value as any);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Geopoints are "lat lon altitude accuracy"; altitude and accuracy (meters) are optional
+export const extractGpsCoordinates = (
+  submission: KoBoSubmission,
+  gpsKeys: string[] = DEFAULT_FIELD_MAPPING.gpsKeys
+): { lat: number | null; lon: number | null; altitude: number | null; accuracy: number | null } => {
+  const gpsKey = gpsKeys.find((key) => submission[key]);
+  const gps = gpsKey ? submission[gpsKey] : undefined;
+
+  let lat: number | null = null;
+  let lon: number | null = null;
+  let altitude: number | null = null;
+  let accuracy: number | null = null;
+
+  if (typeof gps === 'string') {
+    const coords = gps.split(/[ ,]+/).filter(Boolean);
+    if (coords.length >= 2) {
+      lat = parseOptionalNumber(coords[0]);
+      lon = parseOptionalNumber(coords[1]);
+      altitude = parseOptionalNumber(coords[2]);
+      accuracy = parseOptionalNumber(coords[3]);
+    }
+  } else if (Array.isArray(gps)) {
+    if (gps.length >= 2) {
+      lat = parseOptionalNumber(gps[0]);
+      lon = parseOptionalNumber(gps[1]);
+      altitude = parseOptionalNumber(gps[2]);
+      accuracy = parseOptionalNumber(gps[3]);
+    }
+  } else if (gps && typeof gps === 'object') {
+    lat = parseOptionalNumber((gps as any).latitude ?? (gps as any).lat);
+    lon = parseOptionalNumber((gps as any).longitude ?? (gps as any).lon ?? (gps as any).lng);
+    altitude = parseOptionalNumber((gps as any).altitude);
+    accuracy = parseOptionalNumber((gps as any).accuracy);
+  }
+
+  if (lat === null || lon === null) {
+    return { lat: null, lon: null, altitude: null, accuracy: null };
+  }
+
+  // Sanity-check ranges; discard obvious noise
+  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+    return { lat: null, lon: null, altitude: null, accuracy: null };
+  }
+
+  // Collectors record 0 when no accuracy estimate is available
+  return { lat, lon, altitude, accuracy: accuracy !== null && accuracy > 0 ? accuracy : null };
+};
+
+export const extractLatestTimestamp = (
+  submission: KoBoSubmission,
+  timestampKeys: string[] = DEFAULT_FIELD_MAPPING.timestampKeys
+): Date | null => {
+  let latest: Date | null = null;
+
+  for (const key of timestampKeys) {
+    const raw = (submission as any)[key];
+    if (!raw) continue;
+
+    const candidate = new Date(raw);
+    if (Number.isNaN(candidate.getTime())) continue;
+
+    if (!latest || candidate > latest) {
+      latest = candidate;
+    }
+  }
+
+  return latest;
+};
+
+// Forms left open longer than a day aren't meaningful interview durations
+const MAX_INTERVIEW_MINUTES = 24 * 60;
+
+const parseTimestamp = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Start and end of the interview from the form's `start`/`end` metadata
+ */
+export const extractInterviewWindow = (submission: KoBoSubmission): { start: Date | null; end: Date | null } => ({
+  start: parseTimestamp(submission.start),
+  end: parseTimestamp(submission.end),
+});
+
+/**
+ * Interview length in minutes, or null when `start`/`end` are missing or implausible
+ */
+export const extractInterviewDuration = (submission: KoBoSubmission): number | null => {
+  const { start, end } = extractInterviewWindow(submission);
+  if (!start || !end) return null;
+  const minutes = (end.getTime() - start.getTime()) / 60000;
+  return minutes > 0 && minutes <= MAX_INTERVIEW_MINUTES ? minutes : null;
+};
+
+// Walk a submission's answer fields, skipping system and metadata keys
+export const tallyFillableFields = (
+  submission: KoBoSubmission,
+  onFilled?: (path: string, value: unknown) => void
+): { totalFields: number; filledFields: number } => {
+  const stack: Array<{ value: any; path: string }> = [{ value: submission, path: '' }];
+  let totalFields = 0;
+  let filledFields = 0;
+
+  const shouldTrack = (keyPath: string, value: any): boolean => {
+    if (!keyPath) return false;
+    const lowerKey = keyPath.toLowerCase();
+    if (FILLABLE_FIELD_EXCLUDES.has(lowerKey)) return false;
+
+    if (lowerKey.startsWith('_') && !lowerKey.startsWith('_gps') && !lowerKey.startsWith('_location')) {
+      return false;
+    }
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      const remainingKeys = Object.keys(value);
+      if (
+        remainingKeys.length > 0 &&
+        remainingKeys.every((innerKey) => {
+          const combined = `${lowerKey}/${innerKey.toLowerCase()}`;
+          return (
+            FILLABLE_FIELD_EXCLUDES.has(innerKey.toLowerCase()) || FILLABLE_FIELD_EXCLUDES.has(combined)
+          );
+        })
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  while (stack.length > 0) {
+    const { value, path } = stack.pop()!;
+
+    if (value === null || value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        stack.push({ value: item, path: path ? `${path}[${index}]` : `[${index}]` });
+      });
+      continue;
+    }
+
+    if (typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => {
+        const nextPath = path ? `${path}/${key}` : key;
+        stack.push({ value: child, path: nextPath });
+      });
+      continue;
+    }
+
+    if (shouldTrack(path, value)) {
+      totalFields += 1;
+      const trimmed =
+        typeof value === 'string'
+          ? value.trim()
+          : typeof value === 'number'
+            ? value
+            : typeof value === 'boolean'
+              ? value
+              : value;
+      if (
+        trimmed !== '' &&
+        trimmed !== null &&
+        trimmed !== undefined &&
+        !(typeof trimmed === 'number' && Number.isNaN(trimmed))
+      ) {
+        filledFields += 1;
+        onFilled?.(path, trimmed);
+      }
+    }
+  }
+
+  return { totalFields, filledFields };
+};
+
+export const computeFieldFillRate = (submission: KoBoSubmission): number | null => {
+  const { totalFields, filledFields } = tallyFillableFields(submission);
+  if (totalFields === 0) return null;
+  return Math.round((filledFields / totalFields) * 100);
+};
+
+/**
+ * Number of non-empty answer fields, used as a proxy for how long an interview should take
+ */
+export const countAnsweredFields = (submission: KoBoSubmission): number =>
+  tallyFillableFields(submission).filledFields;
+
+/**
+ * Answered fields as path → normalized value, for comparing two submissions' answers.
+ * GPS fields are left out since every household's location differs, as is any path in `skipPaths`.
+ */
+export const extractAnswerValues = (
+  submission: KoBoSubmission,
+  skipPaths?: Set<string>
+): Record<string, string> => {
+  const answers: Record<string, string> = {};
+  tallyFillableFields(submission, (path, value) => {
+    if (/(^|\/)_?(gps|location)/i.test(path) || skipPaths?.has(path)) return;
+    answers[path] = normalizeString(value);
+  });
+  return answers;
+};
+
+// Keys the /api/kobo route stamps on each submission so multi-form projects can be told apart
+export const FORM_UID_KEY = '_form_uid';
+export const FORM_ROLE_KEY = '_form_role';
+
+export const getSubmissionFormRole = (submission: KoBoSubmission): FormRole =>
+  (submission[FORM_ROLE_KEY] as FormRole | undefined) ?? 'target';
+
+// Listing and supplementary forms are tracked per village but never count toward VillageTarget.actual
+export const countsTowardTarget = (submission: KoBoSubmission): boolean =>
+  getSubmissionFormRole(submission) === 'target';
+
+// Stable identity for a submission across syncs: KoBo's numeric _id, which stays put on edits and tells
+// apart re-uploads of the same instance; ODK Central records have no _id and use the instance uuid
+export const getSubmissionKey = (submission: KoBoSubmission): string | null => {
+  if (submission._id !== undefined && submission._id !== null) return `id:${submission._id}`;
+  if (submission._uuid) return String(submission._uuid);
+  return null;
+};
+
+// Unique per form: multi-form projects can legitimately hold the same _uuid in two forms
+export const getRecordKey = (submission: KoBoSubmission): string | null => {
+  const key = getSubmissionKey(submission);
+  if (!key) return null;
+  const formUid = submission[FORM_UID_KEY];
+  return formUid ? `${formUid}/${key}` : key;
+};
+
+/**
+ * Dashboard link that redirects to the record on the project's KoBo or ODK Central server
+ */
+export function buildSubmissionLink(
+  projectId: string,
+  record: { formUid: string | null; submissionId: number | null; uuid: string | null }
+): string {
+  const params = new URLSearchParams({ projectId });
+  if (record.formUid) params.set('formId', record.formUid);
+  if (record.submissionId !== null) params.set('id', String(record.submissionId));
+  if (record.uuid) params.set('uuid', record.uuid);
+  return `/api/kobo/submission?${params.toString()}`;
+}
+
+/**
+ * Dashboard URL that streams one attachment through the server with the project's credentials
+ */
+export function buildAttachmentLink(
+  projectId: string,
+  record: { formUid: string | null; submissionId: number | null; uuid: string | null },
+  attachment: string
+): string {
+  const params = new URLSearchParams({ projectId, attachment });
+  if (record.formUid) params.set('formId', record.formUid);
+  if (record.submissionId !== null) params.set('id', String(record.submissionId));
+  if (record.uuid) params.set('uuid', record.uuid);
+  return `/api/kobo/attachment?${params.toString()}`;
+}
+
+/**
+ * Merge newly fetched submissions into the existing set.
+ * Incoming records replace existing ones with the same record key (per form); unkeyed records are appended.
+ */
+export function mergeSubmissions(
+  existing: KoBoSubmission[],
+  incoming: KoBoSubmission[]
+): KoBoSubmission[] {
+  if (incoming.length === 0) return existing;
+
+  const merged = new Map<string, KoBoSubmission>();
+  const unkeyed: KoBoSubmission[] = [];
+
+  [...existing, ...incoming].forEach((submission) => {
+    const key = getRecordKey(submission);
+    if (key) {
+      merged.set(key, submission);
+    } else {
+      unkeyed.push(submission);
+    }
+  });
+
+  return [...merged.values(), ...unkeyed];
+}
+
+// Incremental syncs re-read this far behind each watermark: KoBo timestamps only have one-second
+// precision, and a record can be stored while the previous sync was still running
+export const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+/**
+ * Latest `_submission_time` per form (FORM_UID_KEY), used as the watermarks for incremental syncs.
+ * Forms are fetched one after another, so a single project-wide maximum could skip records.
+ */
+export function getSubmissionWatermarks(submissions: KoBoSubmission[]): Record<string, string> {
+  const watermarks: Record<string, string> = {};
+
+  submissions.forEach((submission) => {
+    const formUid = submission[FORM_UID_KEY];
+    const value = submission._submission_time;
+    if (!formUid || typeof value !== 'string' || !value) return;
+    // KoBo emits ISO timestamps without offsets, so lexical order matches time order
+    if (!watermarks[formUid] || value > watermarks[formUid]) {
+      watermarks[formUid] = value;
+    }
+  });
+
+  return watermarks;
+}
+
+/**
+ * Watermarks after a sync returned `synced`. Only records from /api/kobo may move them: webhook
+ * pushes aren't replayed, so a pushed record could jump past earlier ones that were never delivered.
+ */
+export function advanceWatermarks(
+  current: Record<string, string>,
+  synced: KoBoSubmission[]
+): Record<string, string> {
+  const next = { ...current };
+  Object.entries(getSubmissionWatermarks(synced)).forEach(([formUid, value]) => {
+    if (!next[formUid] || value > next[formUid]) next[formUid] = value;
+  });
+  return next;
+}
+
+/**
+ * Move a watermark back by SYNC_OVERLAP_MS. KoBo compares `_submission_time` as text, so an
+ * offset-less, whole-second watermark stays in that format.
+ */
+export function overlapWatermark(watermark: string): string {
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(watermark);
+  const time = Date.parse(hasOffset ? watermark : `${watermark}Z`);
+  if (Number.isNaN(time)) return watermark;
+
+  let shifted = new Date(time - SYNC_OVERLAP_MS).toISOString();
+  if (!/\.\d+/.test(watermark)) shifted = shifted.replace(/\.\d{3}Z$/, 'Z');
+  return hasOffset ? shifted : shifted.slice(0, -1);
+}
@@ -1,4 +1,12 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type {
+  KoBoSubmission,
+  TargetRow,
+  TargetVersion,
+  TargetVersionSummary,
+  VillageAliasTable,
+  VillageRef,
+} from '@/types';
 
 // Supabase configuration
 // Get these values from your Supabase project settings
@@ -8,6 +16,18 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 // Create a single supabase client for interacting with your database
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// Server-only client for API routes; the service role key is never exposed to the browser.
+// There's no anon-key fallback: writes would be rejected by row-level security anyway.
+export const createServiceClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured; add it to the server environment (see SUPABASE_SETUP.md)');
+  }
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+};
+
 // Types for location data
 export interface EnumeratorLocation {
   id?: string;
@@ -19,6 +39,45 @@ export interface EnumeratorLocation {
   color?: string;
 }
 
+// Submissions pushed by the KoBo REST Service webhook
+export interface StoredSubmission {
+  // getRecordKey of the payload
+  record_key: string;
+  project_id: string;
+  form_uid: string | null;
+  submission_time: string | null;
+  payload: KoBoSubmission;
+  received_at?: string;
+}
+
+// Realtime announcement of a stored submission; readable by dashboards, so ids only
+export interface StoredSubmissionEvent {
+  record_key: string;
+  project_id: string;
+  received_at: string;
+}
+
+// One saved version of a project's village targets
+export interface StoredTargetVersion {
+  project_id: string;
+  version: number;
+  rows: TargetRow[];
+  author: string;
+  note: string;
+  village_count: number;
+  total_expected: number;
+  created_at?: string;
+}
+
+const toVersionSummary = (row: Omit<StoredTargetVersion, 'rows' | 'project_id'>): TargetVersionSummary => ({
+  version: row.version,
+  author: row.author,
+  note: row.note,
+  createdAt: row.created_at ?? '',
+  villageCount: row.village_count,
+  totalExpected: row.total_expected,
+});
+
 // Location service functions
 export class LocationService {
   /**
@@ -137,3 +196,281 @@ export class LocationService {
     }
   }
 }
+
+// Submission service functions
+export class SubmissionService {
+  /**
+   * Store (or replace) a pushed submission, keyed by its record key, and announce it on
+   * kobo_submission_events. Payloads stay behind the service role; the events carry only ids.
+   * Called from API routes with the service client
+   */
+  static async storeSubmission(
+    client: SupabaseClient,
+    submission: Omit<StoredSubmission, 'received_at'>
+  ): Promise<void> {
+    const receivedAt = new Date().toISOString();
+    const { error } = await client
+      .from('kobo_submissions')
+      .upsert(
+        {
+          ...submission,
+          received_at: receivedAt,
+        },
+        {
+          onConflict: 'record_key',
+        }
+      );
+
+    if (error) {
+      console.error('Error storing submission:', error);
+      throw error;
+    }
+
+    const { error: eventError } = await client
+      .from('kobo_submission_events')
+      .upsert(
+        { record_key: submission.record_key, project_id: submission.project_id, received_at: receivedAt },
+        { onConflict: 'record_key' }
+      );
+
+    if (eventError) {
+      console.error('Error announcing submission:', eventError);
+      throw eventError;
+    }
+  }
+
+  /**
+   * Payloads of a project's pushed submissions by record key
+   */
+  static async getSubmissions(
+    client: SupabaseClient,
+    projectId: string,
+    recordKeys: string[]
+  ): Promise<KoBoSubmission[]> {
+    const { data, error } = await client
+      .from('kobo_submissions')
+      .select('payload')
+      .eq('project_id', projectId)
+      .in('record_key', recordKeys);
+
+    if (error) {
+      console.error('Error loading pushed submissions:', error);
+      throw error;
+    }
+
+    return (data || []).map((row) => row.payload);
+  }
+
+  /**
+   * Subscribe to submissions pushed for a project
+   * Callback is called with the record key of each stored submission; fetch the payload
+   * through /api/kobo/pushed (fetchPushedSubmissions)
+   */
+  static subscribeToSubmissions(
+    projectId: string,
+    callback: (recordKey: string) => void
+  ) {
+    const channel = supabase
+      .channel(`kobo_submission_events_${projectId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'kobo_submission_events',
+          filter: `project_id=eq.${projectId}`,
+        },
+        (change) => {
+          const row = change.new as Partial<StoredSubmissionEvent>;
+          if (row?.record_key) {
+            callback(row.record_key);
+          }
+        }
+      )
+      .subscribe();
+
+    // Return unsubscribe function
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+// Village target version functions
+export class TargetVersionService {
+  /**
+   * Saved versions for a project, newest first, without their rows
+   */
+  static async listVersions(client: SupabaseClient, projectId: string): Promise<TargetVersionSummary[]> {
+    const { data, error } = await client
+      .from('village_target_versions')
+      .select('version, author, note, village_count, total_expected, created_at')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error listing target versions:', error);
+      throw error;
+    }
+
+    return (data || []).map(toVersionSummary);
+  }
+
+  /**
+   * One version with its rows, or null when it doesn't exist
+   */
+  static async getVersion(client: SupabaseClient, projectId: string, version: number): Promise<TargetVersion | null> {
+    const { data, error } = await client
+      .from('village_target_versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching target version:', error);
+      throw error;
+    }
+
+    return data ? { ...toVersionSummary(data), rows: data.rows } : null;
+  }
+
+  /**
+   * Save rows as the project's next version. Versions are never updated in place, so any
+   * earlier state can be reloaded; a concurrent save fails on the primary key instead of overwriting.
+   */
+  static async createVersion(
+    client: SupabaseClient,
+    version: Omit<StoredTargetVersion, 'version' | 'created_at'>
+  ): Promise<TargetVersionSummary> {
+    const { data: latest, error: latestError } = await client
+      .from('village_target_versions')
+      .select('version')
+      .eq('project_id', version.project_id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Error reading latest target version:', latestError);
+      throw latestError;
+    }
+
+    const { data, error } = await client
+      .from('village_target_versions')
+      .insert({ ...version, version: (latest?.version ?? 0) + 1, created_at: new Date().toISOString() })
+      .select('version, author, note, village_count, total_expected, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving target version:', error);
+      throw error;
+    }
+
+    return toVersionSummary(data);
+  }
+}
+
+// Submission exclusion functions
+export class ExclusionService {
+  /**
+   * Record keys (getRecordKey) excluded from a project's target counts
+   */
+  static async listExclusions(client: SupabaseClient, projectId: string): Promise<string[]> {
+    const { data, error } = await client
+      .from('submission_exclusions')
+      .select('record_key')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing exclusions:', error);
+      throw error;
+    }
+
+    return (data || []).map((row) => row.record_key);
+  }
+
+  /**
+   * Exclude one record, or restore it when `excluded` is false. One row per record, so
+   * supervisors toggling different records at the same time don't overwrite each other.
+   */
+  static async setExclusion(
+    client: SupabaseClient,
+    projectId: string,
+    recordKey: string,
+    excluded: boolean
+  ): Promise<void> {
+    const { error } = excluded
+      ? await client
+          .from('submission_exclusions')
+          .upsert(
+            { project_id: projectId, record_key: recordKey, created_at: new Date().toISOString() },
+            { onConflict: 'project_id,record_key', ignoreDuplicates: true }
+          )
+      : await client
+          .from('submission_exclusions')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('record_key', recordKey);
+
+    if (error) {
+      console.error('Error saving exclusion:', error);
+      throw error;
+    }
+  }
+}
+
+// Village alias functions
+export class VillageAliasService {
+  /**
+   * A project's aliases as raw `district|village` key → target village
+   */
+  static async listAliases(client: SupabaseClient, projectId: string): Promise<VillageAliasTable> {
+    const { data, error } = await client
+      .from('village_aliases')
+      .select('source_key, district, village')
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.error('Error listing village aliases:', error);
+      throw error;
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row) => [row.source_key, { district: row.district, village: row.village }])
+    );
+  }
+
+  /**
+   * Map one raw key onto a target village, or remove its alias when `target` is null
+   */
+  static async setAlias(
+    client: SupabaseClient,
+    projectId: string,
+    sourceKey: string,
+    target: VillageRef | null
+  ): Promise<void> {
+    const { error } = target
+      ? await client.from('village_aliases').upsert(
+          {
+            project_id: projectId,
+            source_key: sourceKey,
+            district: target.district,
+            village: target.village,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'project_id,source_key' }
+        )
+      : await client
+          .from('village_aliases')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('source_key', sourceKey);
+
+    if (error) {
+      console.error('Error saving village alias:', error);
+      throw error;
+    }
+  }
+}
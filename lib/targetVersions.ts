@@ -0,0 +1,131 @@
+import type {
+  TargetChange,
+  TargetChangeSide,
+  TargetRow,
+  TargetVersion,
+  TargetVersionSummary,
+  VillageTarget,
+  VillageTargets,
+} from '@/types';
+import { readApiResponse } from '@/lib/apiRequest';
+import { emptyTargetRow } from '@/lib/villageTargets';
+
+// Remembered across projects so supervisors don't retype their name for every change
+const AUTHOR_STORAGE_KEY = 'targetAuthor';
+
+export function loadTargetAuthor(): string {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '';
+}
+
+export function saveTargetAuthor(author: string): void {
+  localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+}
+
+export async function fetchTargetVersions(projectId: string): Promise<TargetVersionSummary[]> {
+  const response = await fetch(`/api/targets?projectId=${encodeURIComponent(projectId)}`, {
+    headers: { 'Accept': 'application/json' },
+  });
+  const data = await readApiResponse<{ versions: TargetVersionSummary[] }>(response);
+  return data.versions;
+}
+
+export async function fetchTargetVersion(projectId: string, version: number): Promise<TargetVersion> {
+  const response = await fetch(
+    `/api/targets?projectId=${encodeURIComponent(projectId)}&version=${encodeURIComponent(String(version))}`,
+    { headers: { 'Accept': 'application/json' } }
+  );
+  const data = await readApiResponse<{ version: TargetVersion }>(response);
+  // Versions saved before a column existed lack it
+  return { ...data.version, rows: data.version.rows.map((row) => ({ ...emptyTargetRow(), ...row })) };
+}
+
+/**
+ * Save rows as the project's next target version on the server
+ */
+export async function saveTargetVersion(
+  projectId: string,
+  secret: string,
+  change: { rows: TargetRow[]; author: string; note: string }
+): Promise<TargetVersionSummary> {
+  const response = await fetch('/api/targets', {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'X-Review-Secret': secret,
+    },
+    body: JSON.stringify({ projectId, ...change }),
+  });
+  const data = await readApiResponse<{ version: TargetVersionSummary }>(response);
+  return data.version;
+}
+
+const toChangeSide = (village: VillageTarget | undefined): TargetChangeSide | null =>
+  village
+    ? {
+        expected: village.expected,
+        optimalDays: village.optimalDays,
+        quotas: Object.fromEntries((village.quotas ?? []).map((quota) => [quota.stratum, quota.expected])),
+      }
+    : null;
+
+const sameSide = (a: TargetChangeSide, b: TargetChangeSide) => {
+  const strata = new Set([...Object.keys(a.quotas), ...Object.keys(b.quotas)]);
+  return (
+    a.expected === b.expected &&
+    a.optimalDays === b.optimalDays &&
+    Array.from(strata).every((stratum) => a.quotas[stratum] === b.quotas[stratum])
+  );
+};
+
+/**
+ * Villages added, removed, or with a different target, day count or quotas between two sets of targets
+ */
+export function diffVillageTargets(before: VillageTargets, after: VillageTargets): TargetChange[] {
+  const changes: TargetChange[] = [];
+  const districts = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  districts.forEach((district) => {
+    const villages = new Set([...Object.keys(before[district] ?? {}), ...Object.keys(after[district] ?? {})]);
+    villages.forEach((village) => {
+      const from = before[district]?.[village];
+      const to = after[district]?.[village];
+      const named = to ?? from!;
+      const entry = {
+        district: named.district,
+        village: named.village,
+        before: toChangeSide(from),
+        after: toChangeSide(to),
+      };
+
+      if (!entry.before) {
+        changes.push({ ...entry, kind: 'added' });
+      } else if (!entry.after) {
+        changes.push({ ...entry, kind: 'removed' });
+      } else if (!sameSide(entry.before, entry.after)) {
+        changes.push({ ...entry, kind: 'changed' });
+      }
+    });
+  });
+
+  return changes.sort(
+    (a, b) => a.district.localeCompare(b.district) || a.village.localeCompare(b.village)
+  );
+}
+
+/**
+ * Versions and the latest version's rows; null when the server has no target history (e.g. Supabase isn't configured)
+ */
+export async function loadTargetHistory(
+  projectId: string
+): Promise<{ versions: TargetVersionSummary[]; latest: TargetVersion | null } | null> {
+  try {
+    const versions = await fetchTargetVersions(projectId);
+    const latest = versions.length > 0 ? await fetchTargetVersion(projectId, versions[0].version) : null;
+    return { versions, latest };
+  } catch (error) {
+    console.warn('Target history unavailable:', error);
+    return null;
+  }
+}
@@ -0,0 +1,160 @@
+import type { KoBoSubmission, SubmissionRef, ValidationStatus } from '@/types';
+import { readApiResponse } from '@/lib/apiRequest';
+import { FORM_UID_KEY, getRecordKey } from '@/lib/submissions';
+
+export const VALIDATION_STATUS_LABELS: Record<ValidationStatus, string> = {
+  approved: 'Approved',
+  'not-approved': 'Rejected',
+  'on-hold': 'On hold',
+};
+
+// KoBo _validation_status.uid and ODK Central reviewState values, mapped onto the dashboard's statuses
+const KOBO_STATUS_UIDS: Record<string, ValidationStatus> = {
+  validation_status_approved: 'approved',
+  validation_status_not_approved: 'not-approved',
+  validation_status_on_hold: 'on-hold',
+};
+const ODK_REVIEW_STATES: Record<string, ValidationStatus> = {
+  approved: 'approved',
+  rejected: 'not-approved',
+  hasIssues: 'on-hold',
+};
+const invert = (map: Record<string, ValidationStatus>) =>
+  Object.fromEntries(Object.entries(map).map(([value, status]) => [status, value])) as Record<ValidationStatus, string>;
+const KOBO_UIDS_BY_STATUS = invert(KOBO_STATUS_UIDS);
+const ODK_STATES_BY_STATUS = invert(ODK_REVIEW_STATES);
+
+/**
+ * Review outcome of a submission from either back-end, or null when nobody has reviewed it
+ */
+export function getValidationStatus(submission: KoBoSubmission): ValidationStatus | null {
+  const uid = submission._validation_status?.uid;
+  if (typeof uid === 'string' && KOBO_STATUS_UIDS[uid]) return KOBO_STATUS_UIDS[uid];
+  const reviewState = submission._review_state;
+  if (typeof reviewState === 'string' && ODK_REVIEW_STATES[reviewState]) return ODK_REVIEW_STATES[reviewState];
+  return null;
+}
+
+// Rejected interviews never count toward VillageTarget.actual
+export const isRejected = (submission: KoBoSubmission): boolean =>
+  getValidationStatus(submission) === 'not-approved';
+
+const secretKey = (projectId: string) => `reviewSecret:${projectId}`;
+
+export function loadReviewSecret(projectId: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(secretKey(projectId));
+}
+
+export function saveReviewSecret(projectId: string, secret: string | null): void {
+  if (secret) {
+    localStorage.setItem(secretKey(projectId), secret);
+  } else {
+    localStorage.removeItem(secretKey(projectId));
+  }
+}
+
+/**
+ * Write a validation status back to the project's server through /api/kobo/validation
+ */
+export async function requestValidationStatus(
+  projectId: string,
+  secret: string,
+  refs: SubmissionRef[],
+  status: ValidationStatus
+): Promise<void> {
+  const response = await fetch('/api/kobo/validation', {
+    method: 'PATCH',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'X-Review-Secret': secret,
+    },
+    body: JSON.stringify({
+      projectId,
+      status,
+      submissions: refs.map((ref) => ({ formUid: ref.formUid, id: ref.submissionId, uuid: ref.uuid })),
+    }),
+  });
+
+  await readApiResponse(response);
+}
+
+/**
+ * Copies of the submissions with the new status written in both back-ends' shapes,
+ * so the local snapshot matches the server until the next sync
+ */
+export function applyValidationStatus(
+  submissions: KoBoSubmission[],
+  recordKeys: Set<string>,
+  status: ValidationStatus
+): KoBoSubmission[] {
+  return submissions.map((submission) => {
+    const recordKey = getRecordKey(submission);
+    if (!recordKey || !recordKeys.has(recordKey)) return submission;
+    // normalizeOdkSubmission always sets _review_state; KoBo records never carry it
+    return '_review_state' in submission
+      ? { ...submission, _review_state: ODK_STATES_BY_STATUS[status] }
+      : {
+          ...submission,
+          _validation_status: { uid: KOBO_UIDS_BY_STATUS[status], label: VALIDATION_STATUS_LABELS[status] },
+        };
+  });
+}
+
+/**
+ * Drop records of `listedForms` that aren't in their server listing (`statuses`): submissions deleted
+ * on the server would otherwise stay in the cache and keep counting toward targets
+ */
+export function pruneDeletedSubmissions(
+  submissions: KoBoSubmission[],
+  statuses: KoBoSubmission[],
+  listedForms: string[]
+): { submissions: KoBoSubmission[]; removed: KoBoSubmission[] } {
+  const forms = new Set(listedForms);
+  const listed = new Set(statuses.map(getRecordKey));
+  const removed: KoBoSubmission[] = [];
+  const kept = submissions.filter((submission) => {
+    const key = getRecordKey(submission);
+    if (key === null || !forms.has(submission[FORM_UID_KEY] ?? '') || listed.has(key)) return true;
+    removed.push(submission);
+    return false;
+  });
+
+  return { submissions: removed.length > 0 ? kept : submissions, removed };
+}
+
+/**
+ * Copy freshly fetched validation states (see SubmissionSource.fetchValidationStatuses) onto the
+ * snapshot, so reviews made on the server or in another browser reach this dashboard
+ */
+export function mergeValidationStatuses(
+  submissions: KoBoSubmission[],
+  statuses: KoBoSubmission[]
+): { submissions: KoBoSubmission[]; changed: KoBoSubmission[] } {
+  const byKey = new Map<string, KoBoSubmission>();
+  statuses.forEach((record) => {
+    const key = getRecordKey(record);
+    if (key) byKey.set(key, record);
+  });
+
+  const changed: KoBoSubmission[] = [];
+  const merged = submissions.map((submission) => {
+    const key = getRecordKey(submission);
+    const record = key ? byKey.get(key) : undefined;
+    if (!record) return submission;
+
+    const updated: KoBoSubmission =
+      '_review_state' in record
+        ? { ...submission, _review_state: record._review_state ?? null }
+        : { ...submission, _validation_status: record._validation_status ?? {} };
+    const before = JSON.stringify([submission._validation_status ?? {}, submission._review_state ?? null]);
+    const after = JSON.stringify([updated._validation_status ?? {}, updated._review_state ?? null]);
+    if (before === after) return submission;
+
+    changed.push(updated);
+    return updated;
+  });
+
+  return { submissions: changed.length > 0 ? merged : submissions, changed };
+}
@@ -0,0 +1,138 @@
+import type { VillageAliasTable, VillageMatchSuggestion, VillageRef, VillageTargets } from '@/types';
+import { villageIndexKey } from '@/lib/aggregation';
+import { readApiResponse } from '@/lib/apiRequest';
+
+// Suggestions below this similarity are more noise than help
+const MIN_SUGGESTION_CONFIDENCE = 0.5;
+// The village name carries most of the signal; districts are few and usually spelled right
+const VILLAGE_WEIGHT = 0.75;
+
+// Shared through /api/village-aliases when Supabase is configured; this browser's copy is the fallback
+const storageKey = (projectId: string) => `villageAliases:${projectId}`;
+
+export function loadVillageAliases(projectId: string): VillageAliasTable {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to read village aliases:', error);
+    return {};
+  }
+}
+
+export function saveVillageAliases(projectId: string, aliases: VillageAliasTable): void {
+  localStorage.setItem(storageKey(projectId), JSON.stringify(aliases));
+}
+
+/**
+ * The project's shared aliases; null when the server doesn't store them (e.g. Supabase isn't configured)
+ */
+export async function loadSharedVillageAliases(projectId: string): Promise<VillageAliasTable | null> {
+  try {
+    const response = await fetch(`/api/village-aliases?projectId=${encodeURIComponent(projectId)}`, {
+      headers: { 'Accept': 'application/json' },
+    });
+    const data = await readApiResponse<{ aliases: VillageAliasTable }>(response);
+    return data.aliases;
+  } catch (error) {
+    console.warn('Shared village aliases unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Save (or, with a null target, remove) one alias on the server, returning the project's updated table
+ */
+export async function saveSharedVillageAlias(
+  projectId: string,
+  secret: string,
+  key: string,
+  target: VillageRef | null
+): Promise<VillageAliasTable> {
+  const response = await fetch('/api/village-aliases', {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'X-Review-Secret': secret,
+    },
+    body: JSON.stringify({ projectId, key, target }),
+  });
+  const data = await readApiResponse<{ aliases: VillageAliasTable }>(response);
+  return data.aliases;
+}
+
+/**
+ * Return a copy of the table with `source` mapped onto `target`
+ */
+export const addVillageAlias = (
+  aliases: VillageAliasTable,
+  source: VillageRef,
+  target: VillageRef
+): VillageAliasTable => ({
+  ...aliases,
+  [villageIndexKey(source.district, source.village)]: target,
+});
+
+export const removeVillageAlias = (aliases: VillageAliasTable, key: string): VillageAliasTable => {
+  const next = { ...aliases };
+  delete next[key];
+  return next;
+};
+
+// Compare letters and digits only so "Sehitwa " and "sehi-twa" look alike
+const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Normalized edit-distance similarity between two names, from 0 (unrelated) to 1 (identical)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = simplify(a);
+  const right = simplify(b);
+  if (!left && !right) return 1;
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+}
+
+/**
+ * Rank target villages by how closely they resemble a submitted district/village pair
+ */
+export function suggestVillageMatches(
+  source: VillageRef,
+  targets: VillageTargets,
+  limit = 3
+): VillageMatchSuggestion[] {
+  const suggestions: VillageMatchSuggestion[] = [];
+
+  Object.entries(targets).forEach(([district, villages]) => {
+    const districtScore = source.district ? nameSimilarity(source.district, district) : 0;
+    Object.keys(villages).forEach((village) => {
+      const villageScore = nameSimilarity(source.village, village);
+      const confidence = villageScore * VILLAGE_WEIGHT + districtScore * (1 - VILLAGE_WEIGHT);
+      if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+        suggestions.push({ district, village, confidence });
+      }
+    });
+  });
+
+  return suggestions.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
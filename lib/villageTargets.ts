@@ -0,0 +1,338 @@
+import Papa from 'papaparse';
+import type { StratumQuota, TargetIssue, TargetRow, VillageArea, VillageTargets } from '@/types';
+import { DEFAULT_VILLAGE_RADIUS_METERS } from '@/lib/locationValidation';
+
+// Fixed columns of a targets file; quotas come from any number of "Quota: <stratum>" columns
+export type TargetColumn = Exclude<keyof TargetRow, 'quotas'>;
+
+// Accepted headers per column, compared case-insensitively; the first is the one we write back
+const COLUMN_HEADERS: Record<TargetColumn, string[]> = {
+  district: ['District'],
+  village: ['Village'],
+  expected: ['Optimal Sample (HH)', 'optimal_sample', 'Target'],
+  optimalDays: ['Optimal Days', 'optimal_days'],
+  latitude: ['Latitude'],
+  longitude: ['Longitude'],
+  radiusKm: ['Radius (km)', 'radius_km'],
+};
+
+const QUOTA_HEADER_PREFIX = 'quota:';
+
+export const quotaHeader = (stratum: string) => `Quota: ${stratum}`;
+
+const NUMERIC_COLUMNS: Array<{ key: TargetColumn; label: string }> = [
+  { key: 'expected', label: 'Optimal Sample (HH)' },
+  { key: 'optimalDays', label: 'Optimal Days' },
+  { key: 'latitude', label: 'Latitude' },
+  { key: 'longitude', label: 'Longitude' },
+  { key: 'radiusKm', label: 'Radius (km)' },
+];
+
+const storageKey = (projectId: string) => `villageTargets:${projectId}`;
+
+export const emptyTargetRow = (): TargetRow => ({
+  district: '',
+  village: '',
+  expected: '',
+  optimalDays: '',
+  latitude: '',
+  longitude: '',
+  radiusKm: '',
+  quotas: {},
+});
+
+const cellText = (value: unknown): string =>
+  value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value).trim();
+
+/**
+ * Map header-keyed records (CSV or spreadsheet rows) onto TargetRows. Blank lines are dropped.
+ */
+export function rowsFromRecords(records: Record<string, unknown>[]): TargetRow[] {
+  return records
+    .map((record) => {
+      const lookup = new Map(Object.entries(record).map(([header, value]) => [header.trim().toLowerCase(), value]));
+      const row = emptyTargetRow();
+      (Object.keys(COLUMN_HEADERS) as TargetColumn[]).forEach((key) => {
+        const header = COLUMN_HEADERS[key].find((candidate) => lookup.has(candidate.toLowerCase()));
+        row[key] = header ? cellText(lookup.get(header.toLowerCase())) : '';
+      });
+      Object.entries(record).forEach(([header, value]) => {
+        if (!header.trim().toLowerCase().startsWith(QUOTA_HEADER_PREFIX)) return;
+        const stratum = header.trim().slice(QUOTA_HEADER_PREFIX.length).trim();
+        const text = cellText(value);
+        if (stratum && text) {
+          row.quotas[stratum] = text;
+        }
+      });
+      return row;
+    })
+    .filter(
+      (row) =>
+        (Object.keys(COLUMN_HEADERS) as TargetColumn[]).some((key) => row[key]) || Object.keys(row.quotas).length > 0
+    );
+}
+
+/**
+ * Header-keyed record for a row, in the public targets file's layout
+ */
+export function targetRowToRecord(row: Partial<TargetRow>): Record<string, string> {
+  const record: Record<string, string> = {};
+  (Object.keys(COLUMN_HEADERS) as TargetColumn[]).forEach((key) => {
+    record[COLUMN_HEADERS[key][0]] = row[key] ?? '';
+  });
+  Object.entries(row.quotas ?? {}).forEach(([stratum, value]) => {
+    record[quotaHeader(stratum)] = value;
+  });
+  return record;
+}
+
+/**
+ * Strata with a quota in any row, in first-seen order
+ */
+export function listQuotaStrata(rows: TargetRow[]): string[] {
+  const strata = new Set<string>();
+  rows.forEach((row) => Object.keys(row.quotas).forEach((stratum) => strata.add(stratum)));
+  return Array.from(strata);
+}
+
+const parseCsv = (file: File): Promise<Record<string, unknown>[]> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<Record<string, unknown>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => resolve(results.data),
+      error: (error: Error) => reject(error),
+    });
+  });
+
+const parseXlsx = async (file: File): Promise<Record<string, unknown>[]> => {
+  // Loaded on demand; only the targets manager needs it
+  const { default: readXlsxFile } = await import('read-excel-file');
+  const [headers = [], ...rows] = await readXlsxFile(file);
+  return rows.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [cellText(header), cells[index]]))
+  );
+};
+
+/**
+ * Read a targets file. CSV and .xlsx are supported; legacy .xls workbooks need re-saving as .xlsx.
+ */
+export async function parseTargetsFile(file: File): Promise<TargetRow[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx') return rowsFromRecords(await parseXlsx(file));
+  if (extension === 'xls') {
+    throw new Error('Legacy .xls workbooks are not supported; save the file as .xlsx or CSV');
+  }
+  return rowsFromRecords(await parseCsv(file));
+}
+
+// Blank cells are null; anything that isn't a finite number is NaN
+const parseNumber = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+const villageKey = (row: TargetRow) => `${row.district.toLowerCase()}|${row.village.toLowerCase()}`;
+
+// Sum of the row's numeric quotas; null when it has none
+const sumQuotas = (row: TargetRow): number | null => {
+  const values = Object.values(row.quotas)
+    .map(parseNumber)
+    .filter((value): value is number => value !== null && Number.isFinite(value));
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+};
+
+/**
+ * Problems in a targets file. `knownDistricts` (lowercase) come from the current targets and
+ * submissions; the unknown-district check is skipped when it's empty.
+ */
+export function validateTargetRows(rows: TargetRow[], knownDistricts: string[] = []): TargetIssue[] {
+  const issues: TargetIssue[] = [];
+  const known = new Set(knownDistricts);
+  const firstRowByVillage = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    if (!row.district || !row.village) {
+      issues.push({
+        row: index,
+        kind: 'missing-name',
+        severity: 'error',
+        message: row.district || row.village ? `Missing ${row.district ? 'village' : 'district'} name` : 'Missing district and village',
+      });
+      return;
+    }
+
+    const key = villageKey(row);
+    const firstRow = firstRowByVillage.get(key);
+    if (firstRow !== undefined) {
+      issues.push({
+        row: index,
+        kind: 'duplicate-village',
+        severity: 'error',
+        message: `${row.village} (${row.district}) already appears on row ${firstRow + 1}`,
+      });
+    } else {
+      firstRowByVillage.set(key, index);
+    }
+
+    NUMERIC_COLUMNS.forEach(({ key: column, label }) => {
+      if (Number.isNaN(parseNumber(row[column]))) {
+        issues.push({
+          row: index,
+          kind: 'non-numeric',
+          severity: 'error',
+          message: `${label} "${row[column]}" is not a number`,
+        });
+      }
+    });
+
+    let hasBadQuota = false;
+    Object.entries(row.quotas).forEach(([stratum, value]) => {
+      if (Number.isNaN(parseNumber(value))) {
+        hasBadQuota = true;
+        issues.push({
+          row: index,
+          kind: 'non-numeric',
+          severity: 'error',
+          message: `Quota for ${stratum} "${value}" is not a number`,
+        });
+      }
+    });
+
+    // A blank target defaults to the sum of the quotas
+    const quotaTotal = sumQuotas(row);
+    const expected = parseNumber(row.expected) ?? quotaTotal;
+    if (!hasBadQuota && quotaTotal !== null && expected !== null && !Number.isNaN(expected) && quotaTotal !== expected) {
+      issues.push({
+        row: index,
+        kind: 'quota-mismatch',
+        severity: 'warning',
+        message: `Quotas add up to ${quotaTotal}, not the target of ${expected}`,
+      });
+    }
+
+    if (expected === null || expected <= 0) {
+      issues.push({
+        row: index,
+        kind: 'missing-target',
+        severity: 'warning',
+        message: `${row.village} has no household target and won't be tracked`,
+      });
+    }
+
+    if (known.size > 0 && !known.has(row.district.toLowerCase())) {
+      issues.push({
+        row: index,
+        kind: 'unknown-district',
+        severity: 'warning',
+        message: `District ${row.district} isn't in the current targets or submissions`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Village targets from validated rows, keyed by lowercase district and village. Rows without a
+ * positive target (or, when blank, quotas) are skipped; validateTargetRows reports them.
+ */
+export function buildVillageTargets(rows: TargetRow[], boundaries: Record<string, VillageArea> = {}): VillageTargets {
+  const targets: VillageTargets = {};
+
+  rows.forEach((row) => {
+    const expected = Math.round(parseNumber(row.expected) ?? sumQuotas(row) ?? 0);
+    if (!row.district || !row.village || !(expected > 0)) return;
+
+    // Normalize to lowercase for case-insensitive matching
+    const districtKey = row.district.toLowerCase();
+    const villageKeyName = row.village.toLowerCase();
+    const optimalDays = parseNumber(row.optimalDays);
+    const centroidLat = parseNumber(row.latitude);
+    const centroidLon = parseNumber(row.longitude);
+    const radiusKm = parseNumber(row.radiusKm);
+
+    if (!targets[districtKey]) {
+      targets[districtKey] = {};
+    }
+    targets[districtKey][villageKeyName] = {
+      district: row.district, // Keep original capitalization for display
+      village: row.village,
+      expected,
+      optimalDays: optimalDays !== null && Number.isFinite(optimalDays) ? optimalDays : 0,
+      actual: 0,
+      percentage: 0,
+      households: [],
+      formCounts: {},
+    };
+
+    const quotas: StratumQuota[] = Object.entries(row.quotas).flatMap(([stratum, value]) => {
+      const quota = Math.round(parseNumber(value) ?? 0);
+      return quota > 0 ? [{ stratum, expected: quota, actual: 0, percentage: 0 }] : [];
+    });
+    if (quotas.length > 0) {
+      targets[districtKey][villageKeyName].quotas = quotas;
+      targets[districtKey][villageKeyName].outsideQuotas = 0;
+    }
+
+    // A boundary polygon wins over a centroid and radius from the file
+    const boundary = boundaries[`${districtKey}|${villageKeyName}`];
+    if (boundary) {
+      targets[districtKey][villageKeyName].area = boundary;
+    } else if (
+      centroidLat !== null && Number.isFinite(centroidLat) && centroidLon !== null && Number.isFinite(centroidLon)
+    ) {
+      targets[districtKey][villageKeyName].area = {
+        kind: 'radius',
+        lat: centroidLat,
+        lon: centroidLon,
+        radiusMeters: radiusKm !== null && radiusKm > 0 ? radiusKm * 1000 : DEFAULT_VILLAGE_RADIUS_METERS,
+      };
+    }
+  });
+
+  return targets;
+}
+
+/**
+ * CSV in the public targets file's layout; location and quota columns are only written when used
+ */
+export function targetRowsToCsv(rows: TargetRow[]): string {
+  const columns = (Object.keys(COLUMN_HEADERS) as TargetColumn[]).filter(
+    (key) => ['district', 'village', 'expected', 'optimalDays'].includes(key) || rows.some((row) => row[key])
+  );
+  const fields = [
+    ...columns.map((key) => COLUMN_HEADERS[key][0]),
+    ...listQuotaStrata(rows).map(quotaHeader),
+  ];
+  return Papa.unparse({
+    fields,
+    data: rows.map((row) => {
+      const record = targetRowToRecord(row);
+      return fields.map((field) => record[field] ?? '');
+    }),
+  });
+}
+
+// Edited or uploaded targets override public/village-targets.csv for this project in this browser
+export function loadStoredTargetRows(projectId: string): TargetRow[] | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(storageKey(projectId));
+    const parsed = stored ? JSON.parse(stored) : null;
+    return Array.isArray(parsed) ? parsed.map((row) => ({ ...emptyTargetRow(), ...row })) : null;
+  } catch (error) {
+    console.warn('Failed to read stored village targets:', error);
+    return null;
+  }
+}
+
+export function saveStoredTargetRows(projectId: string, rows: TargetRow[] | null): void {
+  if (rows) {
+    localStorage.setItem(storageKey(projectId), JSON.stringify(rows));
+  } else {
+    localStorage.removeItem(storageKey(projectId));
+  }
+}
@@ -6,11 +6,100 @@ export interface VillageTarget {
   actual: number;
   percentage: number;
   households: Household[];
+  // Matched submissions per KoBo form uid, including forms that don't count toward the target
+  formCounts: Record<string, number>;
+  // Expected extent of the village, from the targets CSV or a boundary file
+  area?: VillageArea;
+  // Per-stratum quotas from the targets file's "Quota: <stratum>" columns
+  quotas?: StratumQuota[];
+  // Counted submissions whose stratum matches none of the village's quotas
+  outsideQuotas?: number;
+}
+
+export interface StratumQuota {
+  // As written in the targets file header, e.g. "Female-headed"
+  stratum: string;
+  expected: number;
+  actual: number;
+  percentage: number;
+}
+
+export type VillageArea =
+  | { kind: 'radius'; lat: number; lon: number; radiusMeters: number }
+  // GeoJSON MultiPolygon coordinates ([lon, lat] pairs)
+  | { kind: 'polygon'; polygons: number[][][][] };
+
+// One row of the village targets file, kept as text so it can be edited and validated before use
+export interface TargetRow {
+  district: string;
+  village: string;
+  expected: string;
+  optimalDays: string;
+  latitude: string;
+  longitude: string;
+  radiusKm: string;
+  // Stratum → quota, only for strata with a value in this row
+  quotas: Record<string, string>;
+}
+
+export type TargetIssueKind =
+  | 'missing-name'
+  | 'missing-target'
+  | 'duplicate-village'
+  | 'unknown-district'
+  | 'non-numeric'
+  | 'quota-mismatch';
+
+export interface TargetIssue {
+  // Index into the TargetRow list
+  row: number;
+  kind: TargetIssueKind;
+  // Errors block applying the file; warnings don't
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TargetVersionSummary {
+  version: number;
+  // Who saved the version and why, as entered in the targets manager
+  author: string;
+  note: string;
+  createdAt: string;
+  villageCount: number;
+  totalExpected: number;
+}
+
+export interface TargetVersion extends TargetVersionSummary {
+  rows: TargetRow[];
+}
+
+export type TargetChangeKind = 'added' | 'removed' | 'changed';
+
+export interface TargetChangeSide {
+  expected: number;
+  optimalDays: number;
+  // Stratum → quota
+  quotas: Record<string, number>;
+}
+
+export interface TargetChange {
+  district: string;
+  village: string;
+  kind: TargetChangeKind;
+  // Null for villages missing from that side of the comparison
+  before: TargetChangeSide | null;
+  after: TargetChangeSide | null;
 }
 
 export interface Household {
   lat: number;
   lon: number;
+  altitude: number | null;
+  // Reported fix accuracy in meters; null when the device didn't record one
+  accuracy: number | null;
+  // getRecordKey of the submission
+  recordKey: string | null;
+  // Raw submission; null in progress snapshots from the aggregation worker
   data: any;
   enumeratorId?: string;
   enumeratorName?: string;
@@ -65,4 +154,330 @@ export interface EnumeratorInfo {
   submissionCount: number;
   gpsSubmissionCount: number;
   missingGpsCount: number;
+  // Target-form submissions per UTC day (YYYY-MM-DD)
+  dailyCounts: Record<string, number>;
+}
+
+export type FormRole = 'target' | 'listing' | 'supplementary';
+
+export interface ProjectForm {
+  formId: string;
+  name: string;
+  role: FormRole;
+}
+
+// Supervisor review outcome, stored as KoBo _validation_status or ODK Central reviewState
+export type ValidationStatus = 'approved' | 'not-approved' | 'on-hold';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  forms: ProjectForm[];
+}
+
+export interface FormChoice {
+  name: string;
+  label: string;
+}
+
+export interface FormQuestion {
+  name: string;
+  // Submission key, e.g. "grp_general/village"
+  path: string;
+  type: string;
+  label: string;
+  required: boolean;
+  // Own relevance expression first, followed by those of enclosing groups
+  relevant: string[];
+  listName?: string;
+  inRepeat: boolean;
+}
+
+export interface FormSchema {
+  formId: string;
+  title: string;
+  version: string | null;
+  questions: FormQuestion[];
+  choices: Record<string, FormChoice[]>;
+}
+
+export interface FieldMapping {
+  districtKeys: string[];
+  villageKeys: string[];
+  timestampKeys: string[];
+  gpsKeys: string[];
+  enumeratorKeys: string[];
+  // Field whose answer places a submission in a quota stratum; empty when targets aren't stratified
+  stratumKeys: string[];
+  // Regular expression source an enumerator code must match, e.g. "^E\\d+$"
+  enumeratorCodePattern: string;
+}
+
+export interface FieldMappingCheck {
+  field: keyof FieldMapping;
+  label: string;
+  matched: number;
+  total: number;
+  matchedKeys: string[];
+  error?: string;
+}
+
+export interface VillageAggregate {
+  submissionCount: number;
+  // ISO timestamp of the most recent submission
+  latestSubmission: string | null;
+  fillRateTotal: number;
+  fillRateCount: number;
+  enumerators: EnumeratorInfo[];
+  // Target-form submissions per UTC day (YYYY-MM-DD)
+  dailyCounts: Record<string, number>;
+}
+
+export interface BurndownPoint {
+  date: string;
+  // Cumulative submissions up to and including this day
+  actual: number;
+  // Cumulative submissions planned by this day; null when no plan applies yet
+  ideal: number | null;
+}
+
+export type ForecastStatus = 'complete' | 'projected' | 'stalled' | 'not-started';
+
+export interface CompletionForecast {
+  status: ForecastStatus;
+  remaining: number;
+  // Mean submissions per day over the recent window
+  ratePerDay: number;
+  // Projected finish (YYYY-MM-DD) and an ~80% range; latest is null when the slow end never finishes
+  projectedDate: string | null;
+  earliestDate: string | null;
+  latestDate: string | null;
+}
+
+export type PaceStatus = 'ahead' | 'on-track' | 'behind' | 'not-started' | 'no-plan';
+
+export interface PaceAssessment {
+  status: PaceStatus;
+  actual: number;
+  planned: number;
+  expected: number;
+  // Days since the first submission, counting that day as day 1
+  elapsedDays: number;
+  optimalDays: number;
+}
+
+export interface VillageRef {
+  district: string;
+  village: string;
+}
+
+// Raw submission `district|village` (lowercase) → target village keys
+export type VillageAliasTable = Record<string, VillageRef>;
+
+export interface UnmatchedVillage extends VillageRef {
+  submissionCount: number;
+  // ISO timestamp of the most recent submission
+  latestSubmission: string | null;
+}
+
+export interface VillageMatchSuggestion extends VillageRef {
+  // 0-1 similarity between the submitted and target names
+  confidence: number;
+}
+
+export interface EnumeratorDayStats {
+  submissions: number;
+  gpsSubmissions: number;
+  // Interview lengths in minutes, from the form's start/end
+  durations: number[];
+  fillRateTotal: number;
+  fillRateCount: number;
+  // villageIndexKey of each village visited
+  villages: string[];
+  // ISO bounds of the day's interviews
+  firstActivity: string | null;
+  lastActivity: string | null;
+}
+
+export interface EnumeratorProductivity {
+  id: string;
+  name: string;
+  color: string;
+  submissions: number;
+  activeDays: number;
+  // Submissions per active day
+  perDay: number;
+  dailyCounts: Record<string, number>;
+  medianDuration: number | null;
+  // Sum over days of first interview start to last interview end
+  activeHours: number;
+  villagesCovered: number;
+  gpsRate: number | null;
+  fillRate: number | null;
+}
+
+// boundary/radius come from configured village areas; cluster is derived from the village's own fixes
+export type VillageAreaSource = 'boundary' | 'radius' | 'cluster';
+
+export interface LocationCandidate extends SubmissionRef {
+  lat: number;
+  lon: number;
+  accuracy: number | null;
+}
+
+export interface LocationMismatch extends SubmissionRef {
+  lat: number;
+  lon: number;
+  // Distance from the edge of the village area
+  distanceMeters: number;
+  areaSource: VillageAreaSource;
+}
+
+// Enough about one submission to list it and link back to the record
+export interface SubmissionRef {
+  // getRecordKey: unique per form
+  recordKey: string;
+  // KoBo numeric _id / ODK instance uuid, for linking back to the record
+  submissionId: number | null;
+  uuid: string | null;
+  formUid: string | null;
+  enumeratorId: string | null;
+  enumeratorName: string | null;
+  // Target keys when matched, otherwise the raw submitted names
+  district: string;
+  village: string;
+  submittedAt: string | null;
+}
+
+export interface InterviewTiming extends SubmissionRef {
+  durationMinutes: number;
+  answeredFields: number;
+}
+
+export type SpeedingReason = 'form-length' | 'enumerator-baseline';
+
+export interface SpeedingFlag extends InterviewTiming {
+  reasons: SpeedingReason[];
+  // Shortest plausible duration for the number of answers given
+  minimumMinutes: number;
+  // The enumerator's median interview length, when they have enough interviews
+  baselineMinutes: number | null;
+}
+
+export type DuplicateReason = 'same-instance' | 'nearby' | 'similar-answers';
+
+export interface DuplicateCandidate extends SubmissionRef {
+  // meta/instanceID (or _uuid) without the "uuid:" prefix
+  instanceId: string | null;
+  lat: number | null;
+  lon: number | null;
+  answers: Record<string, string>;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  reason: DuplicateReason;
+  members: SubmissionRef[];
+  // Meters apart for nearby pairs, 0-1 answer similarity for similar pairs
+  score: number | null;
+}
+
+// A village with too many submissions to compare answers pairwise
+export interface SkippedSimilarityVillage {
+  district: string;
+  village: string;
+  submissionCount: number;
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[];
+  skippedVillages: SkippedSimilarityVillage[];
+}
+
+export type RiskIndicatorKind = 'low-variance' | 'dont-know' | 'digit-preference' | 'time-location-cluster';
+
+export interface RiskIndicator {
+  kind: RiskIndicatorKind;
+  fired: boolean;
+  // 0-1 once fired, growing with how far past the threshold the enumerator is
+  strength: number;
+  // Human-readable evidence, or why the indicator couldn't be evaluated
+  detail: string;
+}
+
+export interface EnumeratorRisk {
+  enumeratorId: string;
+  enumeratorName: string;
+  color: string;
+  submissions: number;
+  // 0-100, combined from the strengths of fired indicators
+  score: number;
+  indicators: RiskIndicator[];
+}
+
+export interface QualityRule {
+  id: string;
+  name: string;
+  // XLSForm-style expression a submission must satisfy, e.g. "${hh_size} >= 1 and ${hh_size} <= 30"
+  check: string;
+  // Optional precondition; the rule only applies to submissions where it holds
+  when: string | null;
+}
+
+export interface RuleViolation extends SubmissionRef {
+  ruleId: string;
+}
+
+export interface QualityRuleResults {
+  // Rule id → submissions the rule applied to
+  checked: Record<string, number>;
+  violations: RuleViolation[];
+  // Rule id → syntax error, for rules that were skipped entirely
+  errors: Record<string, string>;
+  // Rule id → submissions the rule failed to evaluate on (e.g. a function given the wrong type), with the first message
+  evaluationErrors: Record<string, { count: number; message: string }>;
+}
+
+// Cut-offs for the village quality badges
+export interface QualityThresholds {
+  onTrackPercent: number;
+  monitorPercent: number;
+  upToDateDays: number;
+  checkInDays: number;
+}
+
+export interface MissingnessCell {
+  // Submissions where the question was shown (skip logic allowing)
+  applicable: number;
+  missing: number;
+}
+
+export interface MissingnessReport {
+  // Question paths in form order, or first-seen order without a form schema
+  questions: string[];
+  // Village index key → question path → tally
+  byVillage: Record<string, Record<string, MissingnessCell>>;
+  // Enumerator id → question path → tally
+  byEnumerator: Record<string, Record<string, MissingnessCell>>;
+}
+
+export interface AggregationResult {
+  villageTargets: VillageTargets;
+  enumerators: EnumeratorInfo[];
+  // Keyed by villageIndexKey(district, village)
+  villages: Record<string, VillageAggregate>;
+  // Submitted district/village pairs with no target or alias, most submissions first
+  unmatched: UnmatchedVillage[];
+  // Enumerator id → UTC day → stats, for date-range productivity views
+  enumeratorDays: Record<string, Record<string, EnumeratorDayStats>>;
+  // Implausibly short interviews, shortest first; only computed once every submission is processed
+  speeding: SpeedingFlag[];
+  // Likely double-counted households; only computed once every submission is processed
+  duplicates: DuplicateReport;
+  // Households whose GPS falls outside their village's area; only computed once every submission is processed
+  locationMismatches: LocationMismatch[];
+  missingness: MissingnessReport;
+  ruleResults: QualityRuleResults;
+  processed: number;
+  total: number;
 }